@@ -1,47 +1,98 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Plus, Trash2, FileText, Play, Download, Eye, CheckCircle, AlertCircle, Loader2, RefreshCw, FileSpreadsheet, Square } from 'lucide-react';
-import { FieldDefinition, DocumentResult, ReconcileResult, COLORS } from './types';
-import { sanitizeKey, getNextColor, renderPdfToImage, exportToZip, parseExcelFile, generateAnnotatedImage } from './utils';
-import { processDocument, reconcileData } from './geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, Plus, Trash2, FileText, Play, Download, Eye, CheckCircle, AlertCircle, Loader2, RefreshCw, FileSpreadsheet, Square, Pause, ChevronDown, ChevronRight, Flag, UserCheck, Save, FolderOpen, Database, History, GitMerge } from 'lucide-react';
+import { AIProvider, ColumnMapping, FieldDefinition, FieldTemplate, DocumentResult, ReconcileException, ReconcileResult, ReconcileRun, AnnotatedPage, ExtractionErrorKind, ExtractionOutput, ModelPrice, ProviderSettings, QueueSettings, TokenUsage } from './types';
+import { sanitizeKey, getNextColor, renderPdfToImage, getPageCount, exportToZip, generateAnnotatedPages } from './utils';
+import { getProvider, DEFAULT_PROVIDER_SETTINGS } from './providers';
 import DocumentViewer from './components/DocumentViewer';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import UsagePanel from './components/UsagePanel';
+import ReferenceImportDialog from './components/ReferenceImportDialog';
+import ColumnMappingPanel from './components/ColumnMappingPanel';
+import ExceptionsPanel from './components/ExceptionsPanel';
+import { ReferenceWorkbook, readReferenceFile } from './referenceImport';
+import { getKeyMappings, getReferenceColumns, reconcileMappingWithFields, suggestMapping } from './columnMapping';
+import { runMatching } from './matchingEngine';
+import { buildExceptions } from './exceptions';
+import FieldEditor from './components/FieldEditor';
+import { createDefaultColumns, formatExtractedValue, inferFieldType } from './fieldTypes';
+import { DEFAULT_REVIEW_THRESHOLD, documentNeedsReview, formatConfidence, getConfidenceLevel } from './confidence';
+import { loadProject, saveProject, PROJECT_EXTENSION, ProjectState } from './projectFile';
+import { listSessions, loadSession, saveSession, SessionSummary } from './sessionStore';
+import SessionManager from './components/SessionManager';
+import TemplatePicker from './components/TemplatePicker';
+import {
+  BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, cloneFields, exportTemplates, hasSameFields,
+  loadCustomTemplates, parseTemplateFile, saveCustomTemplates
+} from './templates';
+import { applyOverride, describeOverride, OverrideAudit, OverrideEdit, reapplyOverrides, revertOverride } from './overrides';
+import { EXTRACTION_ERRORS, classifyError } from './extractionErrors';
+import { getCacheKey, getCachedExtraction, putCachedExtraction } from './extractionCache';
+import { getFieldSignatures, getStaleFields, mergeExtraction } from './incrementalExtraction';
+import { addUsage, estimateExtraction, formatCost, formatTokens, getProjectUsage, loadPrices, savePrices, toUsage } from './usage';
+import { DEFAULT_QUEUE_SETTINGS, QueueControl, createQueueControl, runQueue, withRetry } from './extractionQueue';
 import { v4 as uuidv4 } from 'uuid';
 
 type Tab = 'tick' | 'tie';
 
+// Quiet period before changes are autosaved to the browser
+const AUTOSAVE_DELAY_MS = 1000;
+
 const App: React.FC = () => {
   // --- State ---
   const [activeTab, setActiveTab] = useState<Tab>('tick');
-  const [fields, setFields] = useState<FieldDefinition[]>([
-    { id: '1', name: 'Invoice Number', key: 'invoice_number', color: COLORS[0] },
-    { id: '2', name: 'Invoice Date', key: 'invoice_date', color: COLORS[1] },
-    { id: '3', name: 'Total Amount', key: 'total_amount', color: COLORS[2] }
-  ]);
+  const [fields, setFields] = useState<FieldDefinition[]>(() => cloneFields(DEFAULT_TEMPLATE.fields));
+  const [customTemplates, setCustomTemplates] = useState<FieldTemplate[]>(loadCustomTemplates);
+  const [activeTemplateId, setActiveTemplateId] = useState(DEFAULT_TEMPLATE.id);
   const [newFieldName, setNewFieldName] = useState('');
+  const [expandedFieldId, setExpandedFieldId] = useState<string | null>(null);
   const [documents, setDocuments] = useState<DocumentResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(DEFAULT_QUEUE_SETTINGS);
+  const [useExtractionCache, setUseExtractionCache] = useState(true);
+  const [reviewThreshold, setReviewThreshold] = useState(DEFAULT_REVIEW_THRESHOLD);
+  const [showNeedsReviewOnly, setShowNeedsReviewOnly] = useState(false);
+  const [errorFilter, setErrorFilter] = useState<'' | 'any' | ExtractionErrorKind>('');
+  const [reviewer, setReviewer] = useState('');
   
   // Ref for aborting batch process
-  const shouldStopRef = useRef(false);
+  // Controls of the batch and single-document runs in flight, so Stop cancels them all
+  const queueControlsRef = useRef(new Set<QueueControl>());
+  const batchControlRef = useRef<QueueControl | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
 
   // Reconcile / Tie State
   const [referenceData, setReferenceData] = useState<any[]>([]);
   const [referenceFileName, setReferenceFileName] = useState<string | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping[]>([]);
   const [reconcilePrompt, setReconcilePrompt] = useState("Compare the datasets and highlight any differences");
   const [isReconciling, setIsReconciling] = useState(false);
   const [reconcileResult, setReconcileResult] = useState<ReconcileResult | null>(null);
+  const [reconcileRuns, setReconcileRuns] = useState<ReconcileRun[]>([]);
+  const [isLoadingProject, setIsLoadingProject] = useState(false);
+  const [prices, setPrices] = useState<ModelPrice[]>(loadPrices);
+  const [pendingReference, setPendingReference] = useState<ReferenceWorkbook | null>(null); // Read, awaiting the import step
+
+  // Session autosave
+  const [sessionId, setSessionId] = useState(() => uuidv4());
+  const [restorableSession, setRestorableSession] = useState<SessionSummary | null>(null);
+  const [showSessionManager, setShowSessionManager] = useState(false);
 
   // --- Handlers ---
 
   const addField = () => {
     if (!newFieldName.trim()) return;
+    const type = inferFieldType(newFieldName);
     setFields(prev => [
       ...prev,
       {
         id: uuidv4(),
         name: newFieldName,
         key: sanitizeKey(newFieldName),
-        color: getNextColor(prev.length)
+        color: getNextColor(prev.length),
+        type,
+        ...(type === 'table' ? { columns: createDefaultColumns() } : {})
       }
     ]);
     setNewFieldName('');
@@ -51,6 +102,81 @@ const App: React.FC = () => {
     setFields(prev => prev.filter(f => f.id !== id));
   };
 
+  const updateField = (id: string, patch: Partial<FieldDefinition>) => {
+    setFields(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+  };
+
+  // --- Templates ---
+
+  const templates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+  const activeTemplate = templates.find(t => t.id === activeTemplateId);
+  const isTemplateModified = !activeTemplate || !hasSameFields(fields, activeTemplate.fields);
+
+  useEffect(() => {
+    saveCustomTemplates(customTemplates);
+  }, [customTemplates]);
+
+  useEffect(() => {
+    savePrices(prices);
+  }, [prices]);
+
+  const selectTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    if (isTemplateModified && !window.confirm("Discard the unsaved changes to the current field list?")) return;
+    setFields(cloneFields(template.fields));
+    setActiveTemplateId(template.id);
+  };
+
+  const duplicateTemplate = () => {
+    const name = window.prompt("Template name", `${activeTemplate?.name ?? 'Template'} (copy)`)?.trim();
+    if (!name) return;
+    const template: FieldTemplate = { id: uuidv4(), name, fields: cloneFields(fields) };
+    setCustomTemplates(prev => [...prev, template]);
+    setActiveTemplateId(template.id);
+  };
+
+  const saveTemplate = () => {
+    // Built-in templates are read-only, so saving one creates a copy
+    if (!activeTemplate || activeTemplate.builtIn) {
+      duplicateTemplate();
+      return;
+    }
+    setCustomTemplates(prev => prev.map(t => t.id === activeTemplate.id ? { ...t, fields: cloneFields(fields) } : t));
+  };
+
+  const renameTemplate = () => {
+    if (!activeTemplate || activeTemplate.builtIn) return;
+    const name = window.prompt("Template name", activeTemplate.name)?.trim();
+    if (!name) return;
+    setCustomTemplates(prev => prev.map(t => t.id === activeTemplate.id ? { ...t, name } : t));
+  };
+
+  const deleteTemplate = () => {
+    if (!activeTemplate || activeTemplate.builtIn) return;
+    if (!window.confirm(`Delete the template "${activeTemplate.name}"? The current field list is kept.`)) return;
+    setCustomTemplates(prev => prev.filter(t => t.id !== activeTemplate.id));
+    setActiveTemplateId(DEFAULT_TEMPLATE.id);
+  };
+
+  const importTemplates = async (file: File) => {
+    try {
+      const imported = parseTemplateFile(await file.text());
+      setCustomTemplates(prev => [...prev, ...imported]);
+      alert(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error("Error importing templates", error);
+      alert(error instanceof Error ? error.message : "Failed to import templates.");
+    }
+  };
+
+  const handleExportTemplates = () => {
+    // With no saved templates yet, share the field list on screen
+    exportTemplates(customTemplates.length > 0
+      ? customTemplates
+      : [{ id: uuidv4(), name: activeTemplate?.name ?? 'Template', fields }]);
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const newDocs: DocumentResult[] = [];
@@ -61,6 +187,7 @@ const App: React.FC = () => {
         try {
           // Generate preview (Image or PDF page 1)
           const previewUrl = await renderPdfToImage(file);
+          const pageCount = await getPageCount(file);
           
           newDocs.push({
             id: uuidv4(),
@@ -68,6 +195,7 @@ const App: React.FC = () => {
             fileName: file.name,
             fileType: file.type,
             previewUrl,
+            pageCount,
             status: 'idle',
             data: {}
           });
@@ -80,6 +208,7 @@ const App: React.FC = () => {
             fileName: file.name,
             fileType: file.type,
             previewUrl: null, // Fallback
+            pageCount: 1,
             status: 'error',
             errorMsg: 'Could not generate preview',
             data: {}
@@ -93,10 +222,9 @@ const App: React.FC = () => {
   const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
+      e.target.value = '';
       try {
-        const data = await parseExcelFile(file);
-        setReferenceData(data);
-        setReferenceFileName(file.name);
+        setPendingReference(await readReferenceFile(file));
       } catch (error) {
         console.error("Error parsing reference file", error);
         alert("Failed to parse the reference file. Please ensure it is a valid Excel or CSV.");
@@ -104,107 +232,227 @@ const App: React.FC = () => {
     }
   };
 
+  // Aborts the requests in flight; documents not yet extracted go back to Ready
   const handleStop = () => {
-    shouldStopRef.current = true;
+    queueControlsRef.current.forEach(control => control.stop());
+    setIsPaused(false);
   };
 
-  const runExtraction = async () => {
-    if (documents.length === 0) return;
-    setIsProcessing(true);
-    shouldStopRef.current = false;
+  // Lets documents in flight finish but starts no new ones until resumed
+  const togglePause = () => {
+    const control = batchControlRef.current;
+    if (!control) return;
+    if (control.paused) control.resume(); else control.pause();
+    setIsPaused(control.paused);
+  };
 
-    // Clone docs to update state
-    const docsToProcess = [...documents];
+  // Runs work under a fresh queue control that Stop can reach
+  const withQueueControl = async (run: (control: QueueControl) => Promise<void>) => {
+    const control = createQueueControl();
+    queueControlsRef.current.add(control);
+    try {
+      await run(control);
+    } finally {
+      queueControlsRef.current.delete(control);
+    }
+  };
 
-    // Process sequentially
-    for (let i = 0; i < docsToProcess.length; i++) {
-      // Check for stop signal at start of iteration
-      if (shouldStopRef.current) {
-        break;
+  // Extracts one document, retrying transient failures, and records the outcome.
+  // Identical file and extraction settings are answered from the cache unless bypassed.
+  // Only the given fields are extracted; their results are merged into the existing data.
+  const extractDocument = async (
+    doc: DocumentResult,
+    provider: AIProvider,
+    control: QueueControl,
+    readCache: boolean,
+    fieldsToExtract: FieldDefinition[] = fields
+  ) => {
+    const isPartial = fieldsToExtract.length < fields.length;
+    setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: 'processing', errorKind: undefined, errorMsg: undefined, failedFields: undefined, attempts: 0, cached: false } : d));
+
+    try {
+      let cacheKey: string | null = null;
+      let cached: ExtractionOutput | null = null;
+      try {
+        cacheKey = await getCacheKey(doc.file, fieldsToExtract, providerSettings);
+        if (readCache) cached = await getCachedExtraction(cacheKey);
+      } catch (cacheErr) {
+        console.error("Extraction cache unavailable", cacheErr);
       }
 
-      const doc = docsToProcess[i];
-      // Skip if success or already processing (to allow parallel single run + batch run mixing safely)
-      if (doc.status === 'success' || doc.status === 'processing') continue;
+      const output = cached || await withRetry(
+        () => provider.processDocument(doc, fieldsToExtract, control.signal),
+        queueSettings,
+        (attempt) => setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, attempts: attempt } : d)),
+        control.signal
+      );
+      if (!cached && cacheKey) {
+        putCachedExtraction(cacheKey, doc.fileName, output).catch(cacheErr => console.error("Failed to cache extraction", cacheErr));
+      }
+      // Reviewer overrides survive a re-run; other fields keep their results
+      const result = isPartial
+        ? mergeExtraction(doc.data, output.data, fieldsToExtract)
+        : reapplyOverrides(output.data, doc.data);
+      const extractedWith = isPartial
+        ? { ...(doc.extractedWith || getFieldSignatures(fields)), ...getFieldSignatures(fieldsToExtract) }
+        : getFieldSignatures(fieldsToExtract);
 
-      // Update status to processing
-      setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: 'processing' } : d));
+      // Generate Annotated Pages for the Export; the viewer draws its own overlay
+      let annotatedPages: AnnotatedPage[] | undefined;
 
       try {
-        const result = await processDocument(doc, fields);
-        
-        // Generate Annotated Image immediately for Viewer and Export
-        let annotatedBlob: Blob | undefined;
-        let annotatedUrl: string | undefined;
+        annotatedPages = await generateAnnotatedPages(doc.file, result, fields);
+      } catch (annotErr) {
+        console.error("Failed to generate annotation", annotErr);
+      }
 
-        try {
-          const annotation = await generateAnnotatedImage(doc.file, result, fields);
-          annotatedBlob = annotation.blob;
-          annotatedUrl = annotation.url;
-        } catch (annotErr) {
-          console.error("Failed to generate annotation", annotErr);
-        }
-        
-        setDocuments(prev => prev.map(d => 
-          d.id === doc.id ? { 
-            ...d, 
-            status: 'success', 
-            data: result,
-            annotatedBlob,
-            annotatedUrl
-          } : d
-        ));
-      } catch (err) {
-        setDocuments(prev => prev.map(d => 
-          d.id === doc.id ? { ...d, status: 'error', errorMsg: 'Extraction failed' } : d
-        ));
+      setDocuments(prev => prev.map(d => 
+        d.id === doc.id ? { 
+          ...d, 
+          status: 'success', 
+          data: result,
+          warnings: isPartial ? [...(doc.warnings || []), ...(output.warnings || [])] : output.warnings,
+          cached: !!cached,
+          // A cached answer costs nothing this time
+          usage: !cached && output.tokens ? addUsage(d.usage, toUsage(output.tokens, providerSettings.model, prices)) : d.usage,
+          extractedWith,
+          annotatedPages
+        } : d
+      ));
+    } catch (err) {
+      if (control.signal.aborted) {
+        // Cancelled, not failed: ready to run again, keeping any earlier results
+        setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: doc.status === 'success' ? 'success' : 'idle', attempts: undefined } : d));
+        return;
+      }
+      console.error("Extraction failed for", doc.fileName, err);
+      const { kind, message } = classifyError(err);
+      // A failed update of some fields leaves the earlier results in place for the Tie
+      const keepEarlier = isPartial && doc.status === 'success';
+      setDocuments(prev => prev.map(d => 
+        d.id === doc.id
+          ? keepEarlier
+            ? { ...d, status: 'success', errorKind: kind, errorMsg: message, failedFields: fieldsToExtract.map(f => f.key) }
+            : { ...d, status: 'error', errorKind: kind, errorMsg: message }
+          : d
+      ));
+    }
+  };
+
+  const runExtraction = async () => {
+    if (documents.length === 0) return;
+    setIsProcessing(true);
+    setIsPaused(false);
+
+    // Skip processing documents (to allow parallel single run + batch run mixing safely) and
+    // finished ones that are up to date; stale ones only extract their missing or changed fields
+    const docsToProcess: DocumentResult[] = documents.filter(d =>
+      d.status !== 'processing' && (d.status !== 'success' || getStaleFields(d, fields).length > 0));
+    // Failed or new documents that are not stale (e.g. a failed re-run) extract every field
+    const fieldsFor = (doc: DocumentResult) => {
+      const staleFields = getStaleFields(doc, fields);
+      return staleFields.length > 0 ? staleFields : fields;
+    };
+    if (docsToProcess.length === 0) {
+      setIsProcessing(false);
+      return;
+    }
+
+    if (providerSettings.kind !== 'mock') {
+      const estimate = estimateExtraction(docsToProcess.map(doc => ({ doc, fields: fieldsFor(doc) })), providerSettings, prices);
+      const pages = docsToProcess.reduce((sum, d) => sum + d.pageCount, 0);
+      const cost = estimate.cost === null ? `no price is set for ${providerSettings.model}` : `about ${formatCost(estimate.cost)}`;
+      const proceed = window.confirm(
+        `Extract ${docsToProcess.length} document${docsToProcess.length === 1 ? '' : 's'} (${pages} page${pages === 1 ? '' : 's'}) with ${providerSettings.model}?\n\n` +
+        `Estimated usage: ${formatTokens(estimate.promptTokens)} prompt and ${formatTokens(estimate.responseTokens)} response tokens, ${cost}. ` +
+        `Cached results cost nothing.`
+      );
+      if (!proceed) {
+        setIsProcessing(false);
+        return;
       }
     }
 
+    const provider = getProvider(providerSettings);
+
+    await withQueueControl(async control => {
+      batchControlRef.current = control;
+      try {
+        await runQueue(
+          docsToProcess,
+          doc => extractDocument(doc, provider, control, useExtractionCache, fieldsFor(doc)),
+          queueSettings.concurrency,
+          control
+        );
+      } finally {
+        batchControlRef.current = null;
+      }
+    });
+
     setIsProcessing(false);
+    setIsPaused(false);
   };
 
   const runSingleExtraction = async (docId: string) => {
-    const docIndex = documents.findIndex(d => d.id === docId);
-    if (docIndex === -1) return;
-    const doc = documents[docIndex];
-    
+    const doc = documents.find(d => d.id === docId);
     // Prevent double processing
-    if (doc.status === 'processing') return;
+    if (!doc || doc.status === 'processing') return;
+    // A stale document catches up on its missing or changed fields; re-running an up-to-date
+    // one extracts every field again, asking the model rather than replaying the cache
+    const staleFields = getStaleFields(doc, fields);
+    const fieldsToExtract = staleFields.length > 0 ? staleFields : fields;
+    const readCache = useExtractionCache && (doc.status !== 'success' || staleFields.length > 0);
+    await withQueueControl(control => extractDocument(doc, getProvider(providerSettings), control, readCache, fieldsToExtract));
+  };
 
-    // Set status to processing
-    setDocuments(prev => prev.map(d => d.id === docId ? { ...d, status: 'processing', errorMsg: undefined } : d));
+  // Applies a manual change to one document's data and redraws its annotated pages
+  const updateDocumentData = async (docId: string, update: (data: DocumentResult['data']) => DocumentResult['data']) => {
+    const doc = documents.find(d => d.id === docId);
+    if (!doc) return;
+    const data = update(doc.data);
+    setDocuments(prev => prev.map(d => d.id === docId ? { ...d, data } : d));
 
     try {
-        const result = await processDocument(doc, fields);
-        
-        let annotatedBlob: Blob | undefined;
-        let annotatedUrl: string | undefined;
-
-        try {
-          const annotation = await generateAnnotatedImage(doc.file, result, fields);
-          annotatedBlob = annotation.blob;
-          annotatedUrl = annotation.url;
-        } catch (annotErr) {
-          console.error("Failed to generate annotation", annotErr);
-        }
-        
-        setDocuments(prev => prev.map(d => 
-          d.id === docId ? { 
-            ...d, 
-            status: 'success', 
-            data: result,
-            annotatedBlob,
-            annotatedUrl
-          } : d
-        ));
+      const annotatedPages = await generateAnnotatedPages(doc.file, data, fields);
+      setDocuments(prev => prev.map(d => d.id === docId ? { ...d, annotatedPages } : d));
     } catch (err) {
-        setDocuments(prev => prev.map(d => 
-          d.id === docId ? { ...d, status: 'error', errorMsg: 'Extraction failed' } : d
-        ));
+      console.error("Failed to regenerate annotation", err);
     }
   };
 
+  const overrideValue = (docId: string, fieldKey: string, edit: OverrideEdit, audit: OverrideAudit) => {
+    const field = fields.find(f => f.key === fieldKey);
+    if (!field) return;
+    setReviewer(audit.reviewer.trim());
+    updateDocumentData(docId, data => ({ ...data, [fieldKey]: applyOverride(data[fieldKey], field, edit, audit) }));
+  };
+
+  const revertValue = (docId: string, fieldKey: string) => {
+    updateDocumentData(docId, data => data[fieldKey] ? { ...data, [fieldKey]: revertOverride(data[fieldKey]) } : data);
+  };
+
+  // Fields added or reference columns gone since the mapping was made are left unmapped
+  const referenceColumns = getReferenceColumns(referenceData);
+  const activeMapping = reconcileMappingWithFields(columnMapping, fields, referenceColumns);
+
+  // Records a Tie run; its exceptions pick up the review done on the previous run
+  const addReconcileRun = (result: ReconcileResult, instructions: string, usage?: TokenUsage) => {
+    setReconcileResult(result);
+    setReconcileRuns(prev => [...prev, {
+      id: uuidv4(),
+      ranAt: new Date().toISOString(),
+      instructions,
+      referenceFileName,
+      result,
+      usage,
+      mapping: activeMapping,
+      // Without a joined dataset there is nothing to track, rather than nothing wrong
+      exceptions: result.joinedData
+        ? buildExceptions(result.joinedData, [...prev].reverse().find(run => run.exceptions)?.exceptions)
+        : undefined
+    }]);
+  };
+
   const runReconciliation = async () => {
     const successDocs = documents.filter(d => d.status === 'success');
     if (successDocs.length === 0) {
@@ -220,24 +468,142 @@ const App: React.FC = () => {
     setReconcileResult(null);
 
     try {
-      const result = await reconcileData(documents, fields, referenceData, reconcilePrompt);
-      setReconcileResult(result);
+      const result = await getProvider(providerSettings).reconcileData(documents, fields, referenceData, reconcilePrompt, activeMapping);
+      addReconcileRun(result, reconcilePrompt, result.tokens ? toUsage(result.tokens, providerSettings.model, prices) : undefined);
     } catch (error) {
       console.error(error);
-      setReconcileResult({ report: "An error occurred during analysis.", code: "" });
+      // Recorded like any other run, with the reason as a warning so it can be retried
+      const { message } = classifyError(error);
+      addReconcileRun({ report: "An error occurred during analysis.", code: "", warnings: [`The request failed: ${message}`] }, reconcilePrompt);
     } finally {
       setIsReconciling(false);
     }
   };
 
+  // Ties out with the mapping's matching rules in the browser; no AI call, so no cost
+  const runRuleMatching = () => {
+    if (getKeyMappings(activeMapping).length === 0) {
+      alert("Choose at least one match key in the column mapping first.");
+      return;
+    }
+    addReconcileRun(runMatching(documents, fields, referenceData, activeMapping), 'Rule-based matching');
+  };
+
+  const updateExceptions = (exceptions: ReconcileException[]) => {
+    setReconcileRuns(prev => prev.map((run, i) => i === prev.length - 1 ? { ...run, exceptions } : run));
+  };
+
+  const getProjectState = (): ProjectState => ({
+    fields,
+    documents,
+    referenceData,
+    referenceFileName,
+    columnMapping,
+    reconcilePrompt,
+    reconcileRuns,
+    providerSettings,
+    reviewThreshold
+  });
+
+  const applyProjectState = (project: ProjectState) => {
+    setFields(project.fields);
+    setDocuments(project.documents);
+    setReferenceData(project.referenceData);
+    setReferenceFileName(project.referenceFileName);
+    setColumnMapping(project.columnMapping);
+    setReconcilePrompt(project.reconcilePrompt);
+    setReconcileRuns(project.reconcileRuns);
+    setReconcileResult(project.reconcileRuns[project.reconcileRuns.length - 1]?.result ?? null);
+    // Keys are never stored, so keep the one entered in this session
+    setProviderSettings(prev => ({ ...project.providerSettings, apiKey: prev.apiKey }));
+    setReviewThreshold(project.reviewThreshold);
+    setSelectedDocId(null);
+  };
+
+  // Offer the most recent earlier session on startup
+  useEffect(() => {
+    listSessions()
+      .then(sessions => setRestorableSession(sessions.find(s => s.id !== sessionId && s.documentCount > 0) || null))
+      .catch(error => console.error("Could not read stored sessions", error));
+  }, []);
+
+  // Autosave once changes settle
+  useEffect(() => {
+    if (documents.length === 0 && referenceData.length === 0) return;
+    const timer = setTimeout(() => {
+      saveSession(sessionId, getProjectState()).catch(error => console.error("Autosave failed", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, fields, documents, referenceData, referenceFileName, columnMapping, reconcilePrompt, reconcileRuns, providerSettings, reviewThreshold]);
+
+  const restoreSession = async (id: string) => {
+    if (documents.length > 0 && !window.confirm("Restoring a session replaces the current work. Continue?")) return;
+    try {
+      const project = await loadSession(id);
+      if (!project) {
+        alert("That session could not be found.");
+        return;
+      }
+      applyProjectState(project);
+      // Keep saving into the restored session rather than starting a copy
+      setSessionId(id);
+      setRestorableSession(null);
+      setShowSessionManager(false);
+    } catch (error) {
+      console.error("Error restoring session", error);
+      alert("Failed to restore the session.");
+    }
+  };
+
+  const handleSaveProject = () => {
+    saveProject(getProjectState());
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (documents.length > 0 && !window.confirm("Opening a project replaces the current work. Continue?")) return;
+
+    setIsLoadingProject(true);
+    try {
+      applyProjectState(await loadProject(file));
+    } catch (error) {
+      console.error("Error opening project", error);
+      alert(error instanceof Error ? error.message : "Failed to open the project file.");
+    } finally {
+      setIsLoadingProject(false);
+    }
+  };
+
   const handleExport = () => {
-    exportToZip(fields, documents, reconcileResult);
+    exportToZip(fields, documents, reconcileResult, reviewThreshold, reconcileRuns);
   };
 
   // --- Render ---
 
   const selectedDocument = documents.find(d => d.id === selectedDocId);
   const processedCount = documents.filter(d => d.status === 'success').length;
+  const usage = getProjectUsage(documents, reconcileRuns);
+  const latestRun = reconcileRuns[reconcileRuns.length - 1];
+  const needsReviewCount = documents.filter(d => documentNeedsReview(d, fields, reviewThreshold)).length;
+  const failedDocuments = documents.filter(d => d.status === 'error');
+  // Finished documents missing results for new or changed fields
+  const staleFieldNames: Record<string, string> = {};
+  documents.forEach(d => {
+    if (d.status !== 'success') return;
+    const stale = getStaleFields(d, fields);
+    if (stale.length > 0) staleFieldNames[d.id] = stale.map(f => f.name).join(', ');
+  });
+  const errorKindCounts = failedDocuments.reduce<Partial<Record<ExtractionErrorKind, number>>>((counts, d) => {
+    const kind = d.errorKind || 'unknown';
+    counts[kind] = (counts[kind] || 0) + 1;
+    return counts;
+  }, {});
+  const visibleDocuments = documents.filter(d =>
+    (!showNeedsReviewOnly || documentNeedsReview(d, fields, reviewThreshold)) &&
+    (!errorFilter || (d.status === 'error' && (errorFilter === 'any' || (d.errorKind || 'unknown') === errorFilter)))
+  );
 
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
@@ -272,17 +638,70 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex gap-3">
+          <button
+            onClick={() => setShowSessionManager(true)}
+            className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition text-sm"
+            title="Sessions autosaved in this browser"
+          >
+            <Database size={16} />
+          </button>
+          <label
+            className={`flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition text-sm cursor-pointer ${isProcessing || isLoadingProject ? 'opacity-50 pointer-events-none' : ''}`}
+            title="Open a saved project"
+          >
+            {isLoadingProject ? <Loader2 size={16} className="animate-spin" /> : <FolderOpen size={16} />}
+            Open
+            <input type="file" className="hidden" accept={`${PROJECT_EXTENSION},.zip`} onChange={handleOpenProject} />
+          </label>
+          <button
+            onClick={handleSaveProject}
+            disabled={isProcessing || (documents.length === 0 && referenceData.length === 0)}
+            className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition disabled:opacity-50 text-sm"
+            title="Save fields, documents, results and reconciliations to a project file"
+          >
+            <Save size={16} />
+            Save
+          </button>
+
+          <UsagePanel
+            extraction={usage.extraction}
+            reconciliation={usage.reconciliation}
+            prices={prices}
+            onPricesChange={setPrices}
+          />
+
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            onChange={setProviderSettings}
+            queueSettings={queueSettings}
+            onQueueSettingsChange={setQueueSettings}
+            useCache={useExtractionCache}
+            onUseCacheChange={setUseExtractionCache}
+            disabled={isProcessing || isReconciling}
+          />
+
           {/* Actions for Tick Tab */}
           {activeTab === 'tick' && (
             <>
               {isProcessing ? (
-                <button 
-                  onClick={handleStop}
-                  className="flex items-center gap-2 px-5 py-2 rounded-lg font-medium transition shadow-sm text-sm bg-red-600 text-white hover:bg-red-700 shadow-red-200"
-                >
-                  <Square size={16} fill="currentColor" />
-                  Stop Extraction
-                </button>
+                <>
+                  <button 
+                    onClick={togglePause}
+                    className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition text-sm"
+                    title={isPaused ? 'Continue with the remaining documents' : 'Finish the documents in flight, then wait'}
+                  >
+                    {isPaused ? <Play size={16} /> : <Pause size={16} />}
+                    {isPaused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button 
+                    onClick={handleStop}
+                    className="flex items-center gap-2 px-5 py-2 rounded-lg font-medium transition shadow-sm text-sm bg-red-600 text-white hover:bg-red-700 shadow-red-200"
+                    title="Cancel the requests in flight; unfinished documents go back to Ready"
+                  >
+                    <Square size={16} fill="currentColor" />
+                    Stop Extraction
+                  </button>
+                </>
               ) : (
                 <button 
                   onClick={runExtraction}
@@ -322,6 +741,21 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {/* Restore Prompt */}
+      {restorableSession && (
+        <div className="bg-amber-50 border-b border-amber-200 px-8 py-2 flex items-center justify-between text-sm text-amber-900">
+          <span className="flex items-center gap-2">
+            <History size={16} />
+            A previous session from {new Date(restorableSession.updatedAt).toLocaleString()} with {restorableSession.documentCount} document{restorableSession.documentCount === 1 ? '' : 's'} was saved in this browser.
+          </span>
+          <div className="flex items-center gap-3">
+            <button onClick={() => restoreSession(restorableSession.id)} className="font-medium text-amber-900 underline">Restore</button>
+            <button onClick={() => setShowSessionManager(true)} className="text-amber-800 hover:underline">Manage sessions</button>
+            <button onClick={() => setRestorableSession(null)} className="text-amber-700 hover:underline">Dismiss</button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex overflow-hidden">
         
@@ -333,22 +767,53 @@ const App: React.FC = () => {
               <div className="p-6 border-b bg-gray-50">
                 <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-1">Fields to Extract</h2>
                 <p className="text-xs text-gray-500">Define the data points for extraction.</p>
+                <TemplatePicker
+                  templates={templates}
+                  activeTemplateId={activeTemplateId}
+                  isModified={isTemplateModified}
+                  onSelect={selectTemplate}
+                  onSave={saveTemplate}
+                  onDuplicate={duplicateTemplate}
+                  onRename={renameTemplate}
+                  onDelete={deleteTemplate}
+                  onImport={importTemplates}
+                  onExport={handleExportTemplates}
+                />
               </div>
               
               <div className="p-4 flex-1 overflow-y-auto">
                 <div className="space-y-3">
                   {fields.map((field) => (
-                    <div key={field.id} className="flex items-center justify-between p-3 bg-white border rounded-lg shadow-sm group hover:border-indigo-300 transition">
-                      <div className="flex items-center gap-3">
-                        <div className="w-4 h-4 rounded-full shadow-sm border border-black/10" style={{ backgroundColor: field.color }}></div>
-                        <span className="font-medium text-gray-700">{field.name}</span>
+                    <div key={field.id} className="p-3 bg-white border rounded-lg shadow-sm group hover:border-indigo-300 transition">
+                      <div className="flex items-center justify-between">
+                        <button
+                          onClick={() => setExpandedFieldId(id => id === field.id ? null : field.id)}
+                          className="flex items-center gap-3 text-left"
+                        >
+                          <div className="w-4 h-4 rounded-full shadow-sm border border-black/10 shrink-0" style={{ backgroundColor: field.color }}></div>
+                          <div className="min-w-0">
+                            <span className="font-medium text-gray-700">{field.name}</span>
+                            {field.description && expandedFieldId !== field.id && (
+                              <p className="text-xs text-gray-400 truncate max-w-[180px]" title={field.description}>{field.description}</p>
+                            )}
+                          </div>
+                          {expandedFieldId === field.id
+                            ? <ChevronDown size={14} className="text-gray-400" />
+                            : <ChevronRight size={14} className="text-gray-400" />}
+                        </button>
+                        <button 
+                          onClick={() => removeField(field.id)}
+                          className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"
+                        >
+                          <Trash2 size={16} />
+                        </button>
                       </div>
-                      <button 
-                        onClick={() => removeField(field.id)}
-                        className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"
-                      >
-                        <Trash2 size={16} />
-                      </button>
+                      {expandedFieldId === field.id && (
+                        <FieldEditor
+                          field={field}
+                          onChange={(patch) => updateField(field.id, patch)}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -393,6 +858,50 @@ const App: React.FC = () => {
                 </label>
               </div>
 
+              {/* Review Controls */}
+              <div className="px-8 pb-3 flex items-center justify-between gap-4">
+                <label className="flex items-center gap-3 text-sm text-gray-600">
+                  Review below
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={Math.round(reviewThreshold * 100)}
+                    onChange={(e) => setReviewThreshold(Number(e.target.value) / 100)}
+                    className="w-32 accent-indigo-600"
+                  />
+                  <span className="font-mono w-10">{formatConfidence(reviewThreshold)}</span>
+                  <span className="text-xs text-gray-400">confidence</span>
+                </label>
+                <div className="flex items-center gap-2">
+                  {(failedDocuments.length > 0 || errorFilter) && (
+                    <select
+                      value={errorFilter}
+                      onChange={(e) => setErrorFilter(e.target.value as typeof errorFilter)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium border outline-none transition
+                        ${errorFilter ? 'bg-red-50 border-red-300 text-red-800' : 'bg-white border-gray-300 text-gray-700'}`}
+                    >
+                      <option value="">All statuses</option>
+                      <option value="any">Failed ({failedDocuments.length})</option>
+                      {(Object.keys(EXTRACTION_ERRORS) as ExtractionErrorKind[])
+                        .filter(kind => errorKindCounts[kind])
+                        .map(kind => (
+                          <option key={kind} value={kind}>{EXTRACTION_ERRORS[kind].label} ({errorKindCounts[kind]})</option>
+                        ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => setShowNeedsReviewOnly(v => !v)}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border transition
+                      ${showNeedsReviewOnly ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    <Flag size={14} />
+                    Needs review ({needsReviewCount})
+                  </button>
+                </div>
+              </div>
+
               {/* Results Table */}
               <div className="flex-1 overflow-auto px-8 pb-8">
                 <div className="bg-white border rounded-xl shadow-sm overflow-hidden min-h-[400px]">
@@ -410,17 +919,17 @@ const App: React.FC = () => {
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100">
-                      {documents.length === 0 ? (
+                      {visibleDocuments.length === 0 ? (
                         <tr>
                           <td colSpan={fields.length + 3} className="px-6 py-20 text-center text-gray-400">
                             <div className="flex flex-col items-center">
                               <FileText size={48} className="mb-4 opacity-20" />
-                              <p>No documents uploaded yet.</p>
+                              <p>{documents.length === 0 ? 'No documents uploaded yet.' : 'No documents match the filters.'}</p>
                             </div>
                           </td>
                         </tr>
                       ) : (
-                        documents.map((doc) => (
+                        visibleDocuments.map((doc) => (
                           <tr key={doc.id} className="hover:bg-gray-50/80 transition group">
                             <td className="px-6 py-4">
                               <button 
@@ -437,17 +946,54 @@ const App: React.FC = () => {
                                 )}
                                 <div>
                                   <div className="font-medium text-gray-900 text-sm truncate max-w-[200px]" title={doc.fileName}>{doc.fileName}</div>
-                                  <div className="text-xs text-gray-500">{doc.fileType.split('/')[1].toUpperCase()}</div>
+                                  <div className="text-xs text-gray-500">
+                                    {doc.fileType.split('/')[1].toUpperCase()}
+                                    {doc.pageCount > 1 && ` · ${doc.pageCount} pages`}
+                                  </div>
                                 </div>
                               </div>
                             </td>
                             <td className="px-6 py-4">
                               <div className="flex items-center justify-between gap-2">
                                 <div className="flex-1">
-                                  {doc.status === 'processing' && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"><Loader2 size={12} className="mr-1 animate-spin" /> Processing</span>}
+                                  {doc.status === 'processing' && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"><Loader2 size={12} className="mr-1 animate-spin" /> {(doc.attempts || 0) > 1 ? 'Retrying' : 'Processing'}</span>}
                                   {doc.status === 'success' && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"><CheckCircle size={12} className="mr-1" /> Done</span>}
-                                  {doc.status === 'error' && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"><AlertCircle size={12} className="mr-1" /> Error</span>}
+                                  {doc.status === 'success' && doc.cached && (
+                                    <span className="ml-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600" title="Answered from the extraction cache: same file, fields and model as an earlier run">
+                                      Cached
+                                    </span>
+                                  )}
+                                  {doc.status === 'error' && (
+                                    <>
+                                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800" title={doc.errorMsg}>
+                                        <AlertCircle size={12} className="mr-1" /> {EXTRACTION_ERRORS[doc.errorKind || 'unknown'].label}
+                                      </span>
+                                      <div className="text-xs text-gray-500 mt-1" title={doc.errorMsg}>
+                                        {doc.errorKind ? EXTRACTION_ERRORS[doc.errorKind].hint : doc.errorMsg}
+                                      </div>
+                                    </>
+                                  )}
                                   {doc.status === 'idle' && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">Ready</span>}
+                                  {doc.status === 'success' && staleFieldNames[doc.id] && (
+                                    <div className="text-xs text-amber-600 mt-1" title="These fields were added or changed since this document was extracted. Run Extraction fills them in without touching the other fields.">
+                                      Stale: {staleFieldNames[doc.id]}
+                                    </div>
+                                  )}
+                                  {doc.status === 'success' && doc.failedFields && doc.failedFields.length > 0 && (
+                                    <div className="text-xs text-red-600 mt-1 cursor-help" title={`${doc.errorMsg || ''}\n${doc.errorKind ? EXTRACTION_ERRORS[doc.errorKind].hint : ''}`.trim()}>
+                                      Update failed: {doc.failedFields.map(key => fields.find(f => f.key === key)?.name ?? key).join(', ')}
+                                    </div>
+                                  )}
+                                  {doc.status === 'success' && doc.warnings && doc.warnings.length > 0 && (
+                                    <div className="text-xs text-amber-600 mt-1 cursor-help" title={doc.warnings.join('\n')}>
+                                      {doc.warnings.length} output repair{doc.warnings.length === 1 ? '' : 's'}
+                                    </div>
+                                  )}
+                                  {(doc.attempts || 0) > 1 && (
+                                    <div className="text-xs text-gray-400 mt-1" title="Attempts in the latest run, including retries after rate-limit or server errors">
+                                      Attempt {doc.attempts} of {queueSettings.maxRetries + 1}
+                                    </div>
+                                  )}
                                 </div>
                                 {doc.status !== 'processing' && (
                                   <button
@@ -465,9 +1011,27 @@ const App: React.FC = () => {
                             </td>
                             {fields.map(field => {
                               const val = doc.data[field.key];
+                              const display = formatExtractedValue(val, field);
+                              const level = getConfidenceLevel(val?.confidence, reviewThreshold);
+                              const tint = val?.error || level === 'low'
+                                ? 'text-red-700 bg-red-50'
+                                : level === 'medium' ? 'text-gray-700 bg-amber-50' : 'text-gray-700';
+                              const tooltip = [
+                                val?.error || (val?.raw_text && val.raw_text !== display ? `Printed as: ${val.raw_text}` : ''),
+                                val?.override ? `Edited: ${describeOverride(val.override, field)}` : '',
+                                typeof val?.confidence === 'number' ? `Confidence: ${formatConfidence(val.confidence)}` : ''
+                              ].filter(Boolean).join('\n');
                               return (
-                                <td key={field.id} className="px-6 py-4 text-sm text-gray-700 font-mono">
-                                  {val?.value || '-'}
+                                <td
+                                  key={field.id}
+                                  className={`px-6 py-4 text-sm font-mono ${tint}`}
+                                  title={tooltip || undefined}
+                                >
+                                  <div className="flex items-center gap-1">
+                                    {val?.error && <AlertCircle size={14} className="shrink-0" />}
+                                    {val?.override && <UserCheck size={14} className="shrink-0 text-amber-600" />}
+                                    {val?.override?.notApplicable ? <span className="text-gray-400 italic">N/A</span> : (display || '-')}
+                                  </div>
                                 </td>
                               );
                             })}
@@ -513,14 +1077,14 @@ const App: React.FC = () => {
                                  <div className="text-xs text-gray-500">{referenceData.length} rows loaded</div>
                                </div>
                              </div>
-                             <button onClick={() => { setReferenceData([]); setReferenceFileName(null); }} className="text-gray-400 hover:text-red-500">
+                             <button onClick={() => { setReferenceData([]); setReferenceFileName(null); setColumnMapping([]); }} className="text-gray-400 hover:text-red-500">
                                <Trash2 size={16} />
                              </button>
                            </div>
                         ) : (
                           <label className="flex flex-col items-center justify-center w-full h-20 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-indigo-50 hover:border-indigo-400 transition">
                              <span className="text-sm text-gray-500 font-medium">Upload .xlsx or .csv</span>
-                             <input type="file" className="hidden" accept=".csv, .xlsx, .xls" onChange={handleReferenceUpload} />
+                             <input type="file" className="hidden" accept=".csv, .tsv, .txt, .xlsx, .xls" onChange={handleReferenceUpload} />
                           </label>
                         )}
                      </div>
@@ -538,7 +1102,30 @@ const App: React.FC = () => {
                    </div>
                 </div>
 
-                <div className="mt-6 flex justify-end">
+                {referenceData.length > 0 && (
+                  <div className="mt-6">
+                    <ColumnMappingPanel
+                      fields={fields}
+                      documents={documents}
+                      referenceData={referenceData}
+                      referenceColumns={referenceColumns}
+                      mapping={activeMapping}
+                      onChange={setColumnMapping}
+                      onAutoSuggest={() => setColumnMapping(suggestMapping(fields, documents, referenceData))}
+                    />
+                  </div>
+                )}
+
+                <div className="mt-6 flex justify-end gap-3">
+                  <button
+                    onClick={runRuleMatching}
+                    disabled={isReconciling || processedCount === 0 || referenceData.length === 0}
+                    className="flex items-center gap-2 px-5 py-2.5 rounded-lg font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Match with the column mapping's rules, without the AI"
+                  >
+                    <GitMerge size={18} />
+                    Match with Rules
+                  </button>
                   <button 
                     onClick={runReconciliation}
                     disabled={isReconciling || processedCount === 0 || referenceData.length === 0}
@@ -548,7 +1135,7 @@ const App: React.FC = () => {
                         : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200'}`}
                   >
                     {isReconciling ? <Loader2 className="animate-spin" size={18} /> : <Play size={18} fill="currentColor" />}
-                    {isReconciling ? 'Running Analysis (Python)...' : 'Run Reconciliation'}
+                    {isReconciling ? (providerSettings.kind === 'gemini' ? 'Running Analysis (Python)...' : 'Running Analysis...') : 'Run Reconciliation'}
                   </button>
                 </div>
               </div>
@@ -560,29 +1147,95 @@ const App: React.FC = () => {
                    {isReconciling ? (
                      <div className="flex flex-col items-center justify-center py-12 space-y-4">
                        <Loader2 size={40} className="animate-spin text-indigo-600" />
-                       <p className="text-gray-500 text-sm">Gemini is writing and executing Python code...</p>
+                       <p className="text-gray-500 text-sm">
+                         {providerSettings.kind === 'gemini' ? 'Gemini is writing and executing Python code...' : 'The model is comparing the datasets...'}
+                       </p>
                      </div>
                    ) : (
-                     <div 
-                       className="prose prose-slate max-w-none prose-headings:text-indigo-900 prose-a:text-indigo-600"
-                       dangerouslySetInnerHTML={{ __html: window.marked ? window.marked.parse(reconcileResult?.report || '') : reconcileResult?.report }}
-                     />
+                     <>
+                       {reconcileResult?.warnings && reconcileResult.warnings.length > 0 && (
+                         <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+                           <AlertCircle size={18} className="text-amber-600 shrink-0 mt-0.5" />
+                           <div className="flex-1 text-sm text-amber-800">
+                             <p className="font-medium">
+                               {reconcileResult.joinedData
+                                 ? 'The joined dataset may be incomplete. Check it before relying on the export.'
+                                 : 'No usable joined dataset was returned, so the export will only contain the extracted data.'}
+                             </p>
+                             <ul className="mt-1 list-disc list-inside">
+                               {reconcileResult.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                             </ul>
+                           </div>
+                           <button
+                             onClick={runReconciliation}
+                             className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium bg-white border border-amber-300 text-amber-800 rounded-md hover:bg-amber-100 transition"
+                           >
+                             <RefreshCw size={14} /> Retry
+                           </button>
+                         </div>
+                       )}
+                       {reconcileResult?.summary && (
+                         <div className="mb-6 flex flex-wrap gap-4 text-sm">
+                           <span className="text-green-700 font-medium">Matched: {reconcileResult.summary.matched}</span>
+                           <span className="text-amber-700 font-medium">With differences: {reconcileResult.summary.withDifferences}</span>
+                           <span className="text-blue-700 font-medium">Missing in reference: {reconcileResult.summary.missingInReference}</span>
+                           <span className="text-purple-700 font-medium">Missing in source: {reconcileResult.summary.missingInSource}</span>
+                         </div>
+                       )}
+                       <div 
+                         className="prose prose-slate max-w-none prose-headings:text-indigo-900 prose-a:text-indigo-600"
+                         dangerouslySetInnerHTML={{ __html: window.marked ? window.marked.parse(reconcileResult?.report || '') : reconcileResult?.report }}
+                       />
+                     </>
                    )}
                 </div>
               )}
 
+              {!isReconciling && latestRun?.exceptions && reconcileResult === latestRun.result && (
+                <ExceptionsPanel
+                  exceptions={latestRun.exceptions}
+                  reviewer={reviewer}
+                  onReviewerChange={setReviewer}
+                  onChange={updateExceptions}
+                />
+              )}
+
             </div>
           </div>
         )}
 
       </main>
 
+      {pendingReference && (
+        <ReferenceImportDialog
+          workbook={pendingReference}
+          onImport={(rows, fileName) => {
+            setReferenceData(rows);
+            setReferenceFileName(fileName);
+            setColumnMapping(suggestMapping(fields, documents, rows));
+            setPendingReference(null);
+          }}
+          onCancel={() => setPendingReference(null)}
+        />
+      )}
+
+      {showSessionManager && (
+        <SessionManager
+          currentSessionId={sessionId}
+          onRestore={restoreSession}
+          onClose={() => setShowSessionManager(false)}
+        />
+      )}
+
       {/* Document Viewer Modal */}
       {selectedDocument && (
         <DocumentViewer 
           document={selectedDocument} 
           fields={fields} 
           onClose={() => setSelectedDocId(null)} 
+          reviewer={reviewer}
+          onOverride={(fieldKey, edit, audit) => overrideValue(selectedDocument.id, fieldKey, edit, audit)}
+          onRevertOverride={(fieldKey) => revertValue(selectedDocument.id, fieldKey)}
         />
       )}
     </div>
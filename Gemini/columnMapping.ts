@@ -0,0 +1,214 @@
+import { ColumnMapping, DocumentResult, FieldDefinition, MatchRule, MatchRuleKind } from './types';
+import { isNumericType, parseNumber } from './fieldTypes';
+
+/**
+ * Pairs extracted fields with reference columns for the Tie. Suggestions combine name
+ * similarity (including the field's synonyms) with how many extracted values actually
+ * appear in the column; the user confirms them and picks the match key.
+ */
+
+const SUGGEST_THRESHOLD = 0.35;
+const KEY_MIN_UNIQUENESS = 0.9;
+
+// Common abbreviations in ledger and listing headers
+const ABBREVIATIONS: Record<string, string> = {
+  no: 'number', num: 'number', nbr: 'number', nr: 'number',
+  inv: 'invoice', amt: 'amount', qty: 'quantity', ref: 'reference',
+  dt: 'date', desc: 'description', acct: 'account', po: 'purchase order', vat: 'tax'
+};
+
+const tokenize = (name: string): string[] =>
+  name.toLowerCase()
+    .replace(/#/g, ' number ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap(token => (ABBREVIATIONS[token] || token).split(' '));
+
+const nameSimilarity = (a: string, b: string): number => {
+  const compactA = tokenize(a).join('');
+  const compactB = tokenize(b).join('');
+  if (!compactA || !compactB) return 0;
+  if (compactA === compactB) return 1;
+  if (compactA.includes(compactB) || compactB.includes(compactA)) return 0.8;
+  const tokensA = new Set(tokenize(a));
+  const tokensB = new Set(tokenize(b));
+  const shared = [...tokensA].filter(t => tokensB.has(t)).length;
+  return shared / new Set([...tokensA, ...tokensB]).size;
+};
+
+/**
+ * Normalizes a value for comparison across the two datasets: numbers (and numeric text)
+ * to two decimals, everything else trimmed and lower-cased.
+ */
+export const normalizeForMatch = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return value.toFixed(2);
+  const text = String(value).trim();
+  if (/^[-(]?[$€£¥]?\s*[\d.,\s]+\)?$/.test(text) && /\d/.test(text)) {
+    const number = parseNumber(text);
+    if (number !== null) return number.toFixed(2);
+  }
+  return text.toLowerCase();
+};
+
+const getFieldValues = (documents: DocumentResult[], field: FieldDefinition): string[] =>
+  documents
+    .filter(d => d.status === 'success')
+    .map(d => normalizeForMatch(d.data[field.key]?.value))
+    .filter(Boolean);
+
+const valueOverlap = (values: string[], column: Set<string>): number =>
+  values.length === 0 ? 0 : values.filter(v => column.has(v)).length / values.length;
+
+export const getReferenceColumns = (referenceData: any[]): string[] => {
+  const columns: string[] = [];
+  referenceData.slice(0, 50).forEach(row => {
+    Object.keys(row || {}).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+  return columns;
+};
+
+/**
+ * Share of a field's extracted values found in the mapped reference column.
+ */
+export const getMappingOverlap = (
+  mapping: ColumnMapping,
+  fields: FieldDefinition[],
+  documents: DocumentResult[],
+  referenceData: any[]
+): number | null => {
+  const field = fields.find(f => f.key === mapping.fieldKey);
+  if (!field || !mapping.referenceColumn) return null;
+  const values = getFieldValues(documents, field);
+  if (values.length === 0) return null;
+  const column = new Set(referenceData.map(row => normalizeForMatch(row[mapping.referenceColumn!])));
+  return valueOverlap(values, column);
+};
+
+/**
+ * Suggests a reference column for every (non-table) field, each column used once,
+ * and makes the most distinctive well-matched field the match key.
+ */
+export const suggestMapping = (
+  fields: FieldDefinition[],
+  documents: DocumentResult[],
+  referenceData: any[]
+): ColumnMapping[] => {
+  const scalarFields = fields.filter(f => f.type !== 'table');
+  const columns = getReferenceColumns(referenceData);
+  const columnValues = new Map(columns.map(c => [c, new Set(referenceData.map(row => normalizeForMatch(row[c])))]));
+
+  const candidates: { field: FieldDefinition; column: string; score: number; overlap: number }[] = [];
+  scalarFields.forEach(field => {
+    const values = getFieldValues(documents, field);
+    columns.forEach(column => {
+      const name = Math.max(...[field.name, ...(field.synonyms || [])].map(n => nameSimilarity(n, column)));
+      const overlap = valueOverlap(values, columnValues.get(column)!);
+      const score = values.length > 0 ? (name + overlap) / 2 : name;
+      if (score >= SUGGEST_THRESHOLD) candidates.push({ field, column, score, overlap });
+    });
+  });
+
+  // Greedy: best pairs first, each field and column used once
+  const assigned = new Map<string, { column: string; overlap: number }>();
+  const usedColumns = new Set<string>();
+  candidates.sort((a, b) => b.score - a.score).forEach(({ field, column, overlap }) => {
+    if (assigned.has(field.key) || usedColumns.has(column)) return;
+    assigned.set(field.key, { column, overlap });
+    usedColumns.add(column);
+  });
+
+  // Key: values that are nearly unique per document and found in the reference
+  let keyField: string | null = null;
+  let bestKeyScore = 0;
+  assigned.forEach(({ overlap }, fieldKey) => {
+    const field = scalarFields.find(f => f.key === fieldKey)!;
+    const values = getFieldValues(documents, field);
+    const uniqueness = values.length > 0 ? new Set(values).size / values.length : 0;
+    const preferText = field.type === 'text' ? 0.1 : 0;
+    const keyScore = uniqueness >= KEY_MIN_UNIQUENESS ? overlap + preferText : 0;
+    if (keyScore > bestKeyScore) {
+      keyField = fieldKey;
+      bestKeyScore = keyScore;
+    }
+  });
+  if (!keyField && assigned.size > 0) keyField = [...assigned.keys()][0];
+
+  return scalarFields.map(field => {
+    const match = assigned.get(field.key);
+    return {
+      fieldKey: field.key,
+      referenceColumn: match?.column ?? null,
+      role: !match ? 'ignore' : field.key === keyField ? 'key' : 'compare'
+    };
+  });
+};
+
+/**
+ * Keeps a saved mapping in step with the current fields and reference columns: new
+ * fields are added unmapped, and columns that no longer exist are cleared.
+ */
+export const reconcileMappingWithFields = (
+  mapping: ColumnMapping[],
+  fields: FieldDefinition[],
+  referenceColumns: string[]
+): ColumnMapping[] =>
+  fields.filter(f => f.type !== 'table').map(field => {
+    const existing = mapping.find(m => m.fieldKey === field.key);
+    if (!existing || (existing.referenceColumn && !referenceColumns.includes(existing.referenceColumn))) {
+      return { fieldKey: field.key, referenceColumn: null, role: 'ignore' };
+    }
+    return existing;
+  });
+
+export const getKeyMappings = (mapping: ColumnMapping[]): ColumnMapping[] =>
+  mapping.filter(m => m.role === 'key' && m.referenceColumn);
+
+export const getCompareMappings = (mapping: ColumnMapping[]): ColumnMapping[] =>
+  mapping.filter(m => m.role === 'compare' && m.referenceColumn);
+
+// Per-column matching rules, applied by matchingEngine.ts and described to the AI providers
+export const MATCH_RULE_KINDS: { kind: MatchRuleKind; label: string }[] = [
+  { kind: 'exact', label: 'Exact' },
+  { kind: 'fuzzy', label: 'Fuzzy text' },
+  { kind: 'numeric', label: 'Numeric tolerance' },
+  { kind: 'date', label: 'Date window' },
+  { kind: 'id', label: 'ID' }
+];
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.85;
+
+/**
+ * Rule used when the mapping does not set one: numeric fields allow a cent of rounding,
+ * dates must match exactly, ID-like text is normalized and other text is fuzzy.
+ */
+export const getDefaultRule = (field: FieldDefinition): MatchRule => {
+  if (isNumericType(field.type)) return { kind: 'numeric', absoluteTolerance: 0.01, percentTolerance: 0 };
+  if (field.type === 'date') return { kind: 'date', days: 0 };
+  if (field.type === 'text' && /\b(number|no|num|id|ref|reference|code)\b|#/i.test(field.name)) return { kind: 'id' };
+  if (field.type === 'text') return { kind: 'fuzzy', threshold: DEFAULT_FUZZY_THRESHOLD };
+  return { kind: 'exact' };
+};
+
+export const getMappingRule = (mapping: ColumnMapping, fields: FieldDefinition[]): MatchRule => {
+  if (mapping.rule) return mapping.rule;
+  const field = fields.find(f => f.key === mapping.fieldKey);
+  return field ? getDefaultRule(field) : { kind: 'exact' };
+};
+
+export const describeRule = (rule: MatchRule): string => {
+  switch (rule.kind) {
+    case 'fuzzy': return `fuzzy text, similarity at least ${Math.round((rule.threshold ?? DEFAULT_FUZZY_THRESHOLD) * 100)}%`;
+    case 'numeric': {
+      const parts = [];
+      if (rule.absoluteTolerance) parts.push(`±${rule.absoluteTolerance}`);
+      if (rule.percentTolerance) parts.push(`±${rule.percentTolerance}%`);
+      return parts.length > 0 ? `numbers within ${parts.join(' or ')}` : 'numbers equal';
+    }
+    case 'date': return rule.days ? `dates within ±${rule.days} days` : 'dates equal';
+    case 'id': return 'IDs equal ignoring prefixes, separators and leading zeros';
+    default: return 'exact';
+  }
+};
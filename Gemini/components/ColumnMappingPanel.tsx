@@ -0,0 +1,190 @@
+import React from 'react';
+import { Wand2, KeyRound, AlertCircle } from 'lucide-react';
+import { ColumnMapping, DocumentResult, FieldDefinition, MappingRole, MatchRule, MatchRuleKind } from '../types';
+import { DEFAULT_FUZZY_THRESHOLD, MATCH_RULE_KINDS, getKeyMappings, getMappingOverlap, getMappingRule } from '../columnMapping';
+
+interface ColumnMappingPanelProps {
+  fields: FieldDefinition[];
+  documents: DocumentResult[];
+  referenceData: any[];
+  referenceColumns: string[];
+  mapping: ColumnMapping[];
+  onChange: (mapping: ColumnMapping[]) => void;
+  onAutoSuggest: () => void;
+}
+
+const ROLES: { role: MappingRole; label: string }[] = [
+  { role: 'key', label: 'Match key' },
+  { role: 'compare', label: 'Compare' },
+  { role: 'ignore', label: 'Ignore' }
+];
+
+const numberInput = "w-16 px-1.5 py-1 border rounded-md text-xs bg-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+// Parameters shown next to the rule picker
+const RuleParameters: React.FC<{ rule: MatchRule; onChange: (rule: MatchRule) => void }> = ({ rule, onChange }) => {
+  const set = (updates: Partial<MatchRule>) => onChange({ ...rule, ...updates });
+  const read = (value: string) => Math.max(0, Number(value) || 0);
+
+  if (rule.kind === 'fuzzy') {
+    return (
+      <label className="flex items-center gap-1 text-xs text-gray-500" title="Minimum similarity">
+        ≥
+        <input
+          type="number" min={0} max={100} step={5}
+          value={Math.round((rule.threshold ?? DEFAULT_FUZZY_THRESHOLD) * 100)}
+          onChange={(e) => set({ threshold: Math.min(100, read(e.target.value)) / 100 })}
+          className={numberInput}
+        />
+        %
+      </label>
+    );
+  }
+  if (rule.kind === 'numeric') {
+    return (
+      <span className="flex items-center gap-1 text-xs text-gray-500">
+        ±
+        <input
+          type="number" min={0} step="0.01" title="Absolute tolerance"
+          value={rule.absoluteTolerance ?? 0}
+          onChange={(e) => set({ absoluteTolerance: read(e.target.value) })}
+          className={numberInput}
+        />
+        or ±
+        <input
+          type="number" min={0} step="0.1" title="Percent tolerance"
+          value={rule.percentTolerance ?? 0}
+          onChange={(e) => set({ percentTolerance: read(e.target.value) })}
+          className={numberInput}
+        />
+        %
+      </span>
+    );
+  }
+  if (rule.kind === 'date') {
+    return (
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        ±
+        <input
+          type="number" min={0} step={1}
+          value={rule.days ?? 0}
+          onChange={(e) => set({ days: Math.round(read(e.target.value)) })}
+          className={numberInput}
+        />
+        days
+      </label>
+    );
+  }
+  return null;
+};
+
+const overlapClass = (overlap: number) =>
+  overlap >= 0.8 ? 'text-green-600' : overlap >= 0.4 ? 'text-amber-600' : 'text-red-500';
+
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({
+  fields, documents, referenceData, referenceColumns, mapping, onChange, onAutoSuggest
+}) => {
+  const update = (fieldKey: string, updates: Partial<ColumnMapping>) => {
+    onChange(mapping.map(m => {
+      if (m.fieldKey !== fieldKey) return m;
+      const next = { ...m, ...updates };
+      // A field without a column takes no part in the join
+      if (!next.referenceColumn) next.role = 'ignore';
+      else if (updates.referenceColumn && m.role === 'ignore') next.role = 'compare';
+      return next;
+    }));
+  };
+
+  const hasKey = getKeyMappings(mapping).length > 0;
+  const selectClass = "px-2 py-1 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-700">4. Column Mapping</h3>
+        <button
+          onClick={onAutoSuggest}
+          className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+          title="Suggest columns from names and matching values"
+        >
+          <Wand2 size={14} /> Auto-suggest
+        </button>
+      </div>
+
+      {!hasKey && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-600 mb-3">
+          <AlertCircle size={14} /> No match key chosen: the AI will pick the join columns itself, and matching with rules needs a key.
+        </p>
+      )}
+
+      <table className="w-full text-sm">
+        <thead className="text-xs text-gray-500">
+          <tr>
+            <th className="text-left font-medium pb-2 w-1/4">Extracted field</th>
+            <th className="text-left font-medium pb-2">Reference column</th>
+            <th className="text-left font-medium pb-2 w-36">Role</th>
+            <th className="text-left font-medium pb-2">Match rule</th>
+            <th className="text-right font-medium pb-2 w-24" title="Share of extracted values found in the column">Values found</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {mapping.map(m => {
+            const field = fields.find(f => f.key === m.fieldKey);
+            if (!field) return null;
+            const overlap = getMappingOverlap(m, fields, documents, referenceData);
+            const rule = getMappingRule(m, fields);
+            return (
+              <tr key={m.fieldKey}>
+                <td className="py-1.5 pr-2 font-medium text-gray-800">
+                  <span className="flex items-center gap-1.5">
+                    {m.role === 'key' && <KeyRound size={12} className="text-indigo-600" />}
+                    {field.name}
+                  </span>
+                </td>
+                <td className="py-1.5 pr-2">
+                  <select
+                    value={m.referenceColumn ?? ''}
+                    onChange={(e) => update(m.fieldKey, { referenceColumn: e.target.value || null })}
+                    className={`${selectClass} w-full`}
+                  >
+                    <option value="">Not mapped</option>
+                    {referenceColumns.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </td>
+                <td className="py-1.5 pr-2">
+                  <select
+                    value={m.role}
+                    disabled={!m.referenceColumn}
+                    onChange={(e) => update(m.fieldKey, { role: e.target.value as MappingRole })}
+                    className={`${selectClass} w-full disabled:opacity-50`}
+                  >
+                    {ROLES.map(r => <option key={r.role} value={r.role}>{r.label}</option>)}
+                  </select>
+                </td>
+                <td className="py-1.5 pr-2">
+                  {m.role !== 'ignore' && (
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={rule.kind}
+                        onChange={(e) => update(m.fieldKey, { rule: { kind: e.target.value as MatchRuleKind } })}
+                        className={`${selectClass} w-40`}
+                      >
+                        {MATCH_RULE_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+                      </select>
+                      <RuleParameters rule={rule} onChange={(next) => update(m.fieldKey, { rule: next })} />
+                    </div>
+                  )}
+                </td>
+                <td className={`py-1.5 text-right font-mono text-xs ${overlap === null ? 'text-gray-400' : overlapClass(overlap)}`}>
+                  {overlap === null ? '-' : `${Math.round(overlap * 100)}%`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ColumnMappingPanel;
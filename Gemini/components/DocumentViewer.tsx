@@ -1,47 +1,260 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { DocumentResult, FieldDefinition } from '../types';
-import { X, ZoomIn, ZoomOut } from 'lucide-react';
+import { BoundingBox, DocumentResult, FieldDefinition } from '../types';
+import { getValuePage, renderPdfToImage } from '../utils';
+import { formatExtractedValue } from '../fieldTypes';
+import { formatConfidence } from '../confidence';
+import { describeOverride, OverrideAudit, OverrideEdit } from '../overrides';
+import OverrideForm from './OverrideForm';
+import { X, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Pencil, RotateCcw, UserCheck, Eye, EyeOff } from 'lucide-react';
 
 interface DocumentViewerProps {
   document: DocumentResult;
   fields: FieldDefinition[];
   onClose: () => void;
+  reviewer?: string;
+  onOverride?: (fieldKey: string, edit: OverrideEdit, audit: OverrideAudit) => void;
+  onRevertOverride?: (fieldKey: string) => void;
 }
 
-const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields, onClose }) => {
+// Normalized 0-1000 point within the page image
+type Point = { x: number; y: number };
+
+// A field, or one row of a table field, drawn on the page
+type Region = { fieldId: string; rowIndex?: number; box: BoundingBox; label: string; color: string };
+
+// Page width in CSS pixels at 100% zoom
+const BASE_PAGE_WIDTH = 720;
+// PDF render scale at 100% zoom; raised in steps as the user zooms in
+const BASE_RENDER_SCALE = 1.5;
+
+const toBox = (a: Point, b: Point): BoundingBox => [
+  Math.min(a.y, b.y), Math.min(a.x, b.x), Math.max(a.y, b.y), Math.max(a.x, b.x)
+];
+
+const isInside = (point: Point, box: BoundingBox) =>
+  point.y >= box[0] && point.x >= box[1] && point.y <= box[2] && point.x <= box[3];
+
+// Moves a box by the drag distance, keeping it on the page
+const moveBox = (box: BoundingBox, from: Point, to: Point): BoundingBox => {
+  const dy = Math.min(Math.max(to.y - from.y, -box[0]), 1000 - box[2]);
+  const dx = Math.min(Math.max(to.x - from.x, -box[1]), 1000 - box[3]);
+  return [box[0] + dy, box[1] + dx, box[2] + dy, box[3] + dx];
+};
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  top: `${box[0] / 10}%`,
+  left: `${box[1] / 10}%`,
+  height: `${(box[2] - box[0]) / 10}%`,
+  width: `${(box[3] - box[1]) / 10}%`
+});
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({
+  document: doc, fields, onClose, reviewer = '', onOverride, onRevertOverride
+}) => {
   const [scale, setScale] = useState(1);
+  const [page, setPage] = useState(1);
+  const [pageImage, setPageImage] = useState<{ page: number; url: string } | null>(null);
+  const [hoveredFieldId, setHoveredFieldId] = useState<string | null>(null);
+  const [focus, setFocus] = useState<{ fieldId: string; rowIndex?: number } | null>(null);
+  const [hiddenFieldIds, setHiddenFieldIds] = useState<Set<string>>(new Set());
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [pendingBox, setPendingBox] = useState<{ box: BoundingBox; page: number } | null>(null);
+  // Drag in progress: either drawing a new box or moving the pending one
+  const [drag, setDrag] = useState<{ mode: 'draw' | 'move'; start: Point; end: Point; box?: BoundingBox } | null>(null);
 
-  // Reset scale when doc changes
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const panRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+
+  const pageCount = Math.max(1, doc.pageCount);
+  const isPdf = doc.file.type === 'application/pdf';
+  const renderScale = isPdf ? BASE_RENDER_SCALE * Math.max(1, Math.ceil(scale)) : BASE_RENDER_SCALE;
+
+  // Reset scale, page and selection when doc changes
   useEffect(() => {
     setScale(1);
+    setPage(1);
+    setFocus(null);
+    setEditingFieldId(null);
   }, [doc.id]);
 
-  // Use the annotated URL if available (processed docs), otherwise the preview URL (uploaded but not processed)
-  const displayUrl = doc.annotatedUrl || doc.previewUrl;
+  // Render the clean page; boxes are drawn on top as an overlay so they stay sharp
+  useEffect(() => {
+    if (page === 1 && renderScale === BASE_RENDER_SCALE && doc.previewUrl) {
+      setPageImage({ page, url: doc.previewUrl });
+      return;
+    }
+
+    let cancelled = false;
+    renderPdfToImage(doc.file, page, renderScale)
+      .then(url => { if (!cancelled) setPageImage({ page, url }); })
+      .catch(err => console.error("Failed to render page", page, err));
+    return () => { cancelled = true; };
+  }, [doc.id, doc.file, doc.previewUrl, page, renderScale]);
+
+  // Each edit starts from the field's current box
+  useEffect(() => {
+    setIsDrawing(false);
+    setDrag(null);
+    const field = fields.find(f => f.id === editingFieldId);
+    const extracted = field ? doc.data[field.key] : undefined;
+    setPendingBox(null);
+    if (extracted?.box_2d) {
+      setPendingBox({ box: extracted.box_2d, page: getValuePage(extracted, pageCount) });
+    }
+  }, [editingFieldId]);
+
+  // Keep the page showing the previous render while a sharper one is on its way
+  const displayUrl = pageImage?.page === page ? pageImage.url : null;
+
+  const regions: Region[] = fields.flatMap(field => {
+    const extracted = doc.data[field.key];
+    if (!extracted || hiddenFieldIds.has(field.id) || field.id === editingFieldId) return [];
+    if (field.type === 'table') {
+      return (extracted.rows || []).flatMap((row, rowIndex) =>
+        row.box_2d && getValuePage(row, pageCount) === page
+          ? [{ fieldId: field.id, rowIndex, box: row.box_2d, label: `${field.name} #${rowIndex + 1}`, color: field.color }]
+          : []);
+    }
+    return extracted.box_2d && getValuePage(extracted, pageCount) === page
+      ? [{ fieldId: field.id, box: extracted.box_2d, label: extracted.override ? `${field.name} (edited)` : field.name, color: field.color }]
+      : [];
+  });
 
-  if (!displayUrl) {
+  const focusBox = (() => {
+    if (!focus) return null;
+    const field = fields.find(f => f.id === focus.fieldId);
+    const extracted = field ? doc.data[field.key] : undefined;
+    const target = focus.rowIndex !== undefined ? extracted?.rows?.[focus.rowIndex] : extracted;
+    return target?.box_2d && getValuePage(target, pageCount) === page ? target.box_2d : null;
+  })();
+  const focusKey = focusBox ? focusBox.join(',') : '';
+
+  // Center the focused box in the view, at the current zoom level
+  useEffect(() => {
+    const container = scrollRef.current;
+    const pageElement = pageRef.current;
+    if (!focusBox || !container || !pageElement || !displayUrl) return;
+    const centerX = pageElement.offsetLeft + ((focusBox[1] + focusBox[3]) / 2000) * pageElement.offsetWidth;
+    const centerY = pageElement.offsetTop + ((focusBox[0] + focusBox[2]) / 2000) * pageElement.offsetHeight;
+    container.scrollTo({
+      left: centerX - container.clientWidth / 2,
+      top: centerY - container.clientHeight / 2,
+      behavior: 'smooth'
+    });
+  }, [focusKey, scale, !!displayUrl]);
+
+  if (!doc.previewUrl && !displayUrl) {
     return null;
   }
 
+  const editingField = fields.find(f => f.id === editingFieldId);
+
+  const selectRegion = (fieldId: string, rowIndex?: number, regionPage?: number | null) => {
+    setFocus({ fieldId, rowIndex });
+    if (regionPage) setPage(regionPage);
+  };
+
+  const toggleField = (fieldId: string) => {
+    setHiddenFieldIds(prev => {
+      const next = new Set(prev);
+      if (next.has(fieldId)) next.delete(fieldId);
+      else next.add(fieldId);
+      return next;
+    });
+  };
+
+  const pointFromEvent = (e: React.MouseEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000)
+    };
+  };
+
+  const startDrag = (e: React.MouseEvent<HTMLDivElement>) => {
+    const point = pointFromEvent(e);
+    if (pendingBox && pendingBox.page === page && isInside(point, pendingBox.box)) {
+      setDrag({ mode: 'move', start: point, end: point, box: pendingBox.box });
+    } else {
+      setDrag({ mode: 'draw', start: point, end: point });
+    }
+  };
+
+  const draggedBox = (): BoundingBox | null => {
+    if (!drag) return null;
+    return drag.mode === 'move' && drag.box ? moveBox(drag.box, drag.start, drag.end) : toBox(drag.start, drag.end);
+  };
+
+  const finishDrag = () => {
+    const box = draggedBox();
+    // Ignore accidental clicks that produce an empty box
+    if (box && box[2] - box[0] > 2 && box[3] - box[1] > 2) {
+      setPendingBox({ box, page });
+    }
+    setDrag(null);
+  };
+
+  // Drag the page background to pan when zoomed in
+  const startPan = (e: React.MouseEvent<HTMLDivElement>) => {
+    const container = scrollRef.current;
+    if (!container || isDrawing) return;
+    panRef.current = { x: e.clientX, y: e.clientY, left: container.scrollLeft, top: container.scrollTop };
+  };
+
+  const pan = (e: React.MouseEvent<HTMLDivElement>) => {
+    const container = scrollRef.current;
+    const start = panRef.current;
+    if (!container || !start) return;
+    container.scrollLeft = start.left - (e.clientX - start.x);
+    container.scrollTop = start.top - (e.clientY - start.y);
+  };
+
+  const editOverlayBox = draggedBox() || (pendingBox && pendingBox.page === page ? pendingBox.box : null);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
       <div className="bg-white rounded-lg shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
-        
+
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b bg-gray-50">
           <div>
             <h3 className="font-bold text-lg text-gray-800">{doc.fileName}</h3>
             <p className="text-sm text-gray-500">
-               {doc.annotatedUrl ? 'Annotated View' : 'Original Preview'}
+               {isDrawing && editingField
+                 ? `Drag on the page to draw the box for ${editingField.name}, or drag the box to move it`
+                 : doc.status === 'success' ? 'Hover a field to find it on the page; click a box to find its field' : 'Original Preview'}
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {pageCount > 1 && (
+              <div className="flex items-center bg-white border rounded-md">
+                <button
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="p-2 hover:bg-gray-100 disabled:opacity-40"
+                >
+                  <ChevronLeft size={20} />
+                </button>
+                <span className="px-2 text-sm font-medium text-center whitespace-nowrap">Page {page} / {pageCount}</span>
+                <button
+                  onClick={() => setPage(p => Math.min(pageCount, p + 1))}
+                  disabled={page === pageCount}
+                  className="p-2 hover:bg-gray-100 disabled:opacity-40"
+                >
+                  <ChevronRight size={20} />
+                </button>
+              </div>
+            )}
             <div className="flex items-center bg-white border rounded-md">
               <button onClick={() => setScale(s => Math.max(0.5, s - 0.25))} className="p-2 hover:bg-gray-100">
                 <ZoomOut size={20} />
               </button>
               <span className="px-2 text-sm font-medium w-12 text-center">{Math.round(scale * 100)}%</span>
-              <button onClick={() => setScale(s => Math.min(3, s + 0.25))} className="p-2 hover:bg-gray-100">
+              <button onClick={() => setScale(s => Math.min(4, s + 0.25))} className="p-2 hover:bg-gray-100">
                 <ZoomIn size={20} />
               </button>
             </div>
@@ -53,24 +266,156 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
 
         {/* Main Content */}
         <div className="flex-1 flex overflow-hidden">
-          
+
           {/* Sidebar: Extracted Data List */}
           <div className="w-1/3 min-w-[300px] border-r bg-white overflow-y-auto p-6">
              <h4 className="font-semibold text-gray-700 mb-4 uppercase text-xs tracking-wider">Extracted Fields</h4>
              <div className="space-y-4">
                {fields.map(field => {
                  const extracted = doc.data[field.key];
-                 const hasValue = extracted && extracted.value;
-                 
+                 const display = formatExtractedValue(extracted, field);
+                 const hasValue = display !== '';
+                 const hasRegions = !!extracted?.box_2d || !!extracted?.rows?.some(r => r.box_2d);
+                 const valuePage = extracted?.box_2d ? getValuePage(extracted, pageCount) : null;
+                 const isHidden = hiddenFieldIds.has(field.id);
+                 const isActive = focus?.fieldId === field.id || hoveredFieldId === field.id;
+
                  return (
-                   <div key={field.id} className="border rounded-lg p-3 hover:bg-gray-50 transition">
+                   <div
+                     key={field.id}
+                     ref={(el) => { cardRefs.current[field.id] = el; }}
+                     onClick={() => valuePage && selectRegion(field.id, undefined, valuePage)}
+                     onMouseEnter={() => setHoveredFieldId(field.id)}
+                     onMouseLeave={() => setHoveredFieldId(null)}
+                     className={`border rounded-lg p-3 hover:bg-gray-50 transition ${valuePage ? 'cursor-pointer' : ''} ${isActive ? 'border-indigo-400 ring-1 ring-indigo-200' : ''}`}
+                   >
                      <div className="flex items-center justify-between mb-1">
                         <span className="text-sm font-medium text-gray-600">{field.name}</span>
-                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: field.color }} />
+                        <div className="flex items-center gap-2">
+                          {typeof extracted?.confidence === 'number' && (
+                            <span className="text-xs text-gray-400" title="Confidence">{formatConfidence(extracted.confidence)}</span>
+                          )}
+                          {valuePage && pageCount > 1 && (
+                            <span className="text-xs text-gray-400">p. {valuePage}</span>
+                          )}
+                          {onOverride && doc.status === 'success' && editingFieldId !== field.id && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingFieldId(field.id);
+                              }}
+                              className="p-1 rounded text-gray-400 hover:text-indigo-600 transition"
+                              title="Correct this value"
+                            >
+                              <Pencil size={14} />
+                            </button>
+                          )}
+                          {hasRegions && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleField(field.id);
+                              }}
+                              className="p-1 rounded text-gray-400 hover:text-indigo-600 transition"
+                              title={isHidden ? 'Show on page' : 'Hide on page'}
+                            >
+                              {isHidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                            </button>
+                          )}
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: field.color, opacity: isHidden ? 0.3 : 1 }} />
+                        </div>
                      </div>
-                     <div className={`text-lg font-mono break-all ${hasValue ? 'text-gray-900' : 'text-gray-400 italic'}`}>
-                       {hasValue ? extracted.value : 'Not found'}
+                     <div className={`text-lg font-mono break-all ${hasValue ? (extracted?.error ? 'text-red-700' : 'text-gray-900') : 'text-gray-400 italic'}`}>
+                       {hasValue ? display : 'Not found'}
                      </div>
+                     {extracted?.override && (
+                       <div className="flex items-start justify-between gap-2 mt-1 text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+                         <span className="flex items-start gap-1">
+                           <UserCheck size={12} className="mt-0.5 shrink-0" />
+                           {describeOverride(extracted.override, field)}
+                         </span>
+                         {onRevertOverride && (
+                           <button
+                             onClick={(e) => {
+                               e.stopPropagation();
+                               onRevertOverride(field.key);
+                             }}
+                             className="text-amber-700 hover:text-amber-900 shrink-0"
+                             title="Revert to the model's value"
+                           >
+                             <RotateCcw size={12} />
+                           </button>
+                         )}
+                       </div>
+                     )}
+                     {editingFieldId === field.id && onOverride && (
+                       <OverrideForm
+                         field={field}
+                         extracted={extracted}
+                         reviewer={reviewer}
+                         pendingBox={pendingBox}
+                         isDrawing={isDrawing}
+                         onToggleDrawing={() => {
+                           setIsDrawing(d => !d);
+                           if (pendingBox) setPage(pendingBox.page);
+                         }}
+                         onSave={(edit, audit) => {
+                           onOverride(field.key, edit, audit);
+                           setEditingFieldId(null);
+                         }}
+                         onCancel={() => setEditingFieldId(null)}
+                       />
+                     )}
+                     {extracted?.error ? (
+                       <div className="text-xs text-red-600 mt-1">{extracted.error}</div>
+                     ) : extracted?.raw_text && extracted.raw_text !== display && (
+                       <div className="text-xs text-gray-400 mt-1">Printed as: {extracted.raw_text}</div>
+                     )}
+                     {field.type === 'table' && extracted?.rows && extracted.rows.length > 0 && (
+                       <div className="mt-2 overflow-x-auto custom-scrollbar">
+                         <table className="w-full text-xs border-collapse">
+                           <thead>
+                             <tr className="bg-gray-50 text-gray-500">
+                               <th className="px-2 py-1 border text-left">#</th>
+                               {(field.columns || []).map(column => (
+                                 <th key={column.id} className="px-2 py-1 border text-left whitespace-nowrap">{column.name}</th>
+                               ))}
+                             </tr>
+                           </thead>
+                           <tbody>
+                             {extracted.rows.map((row, rowIndex) => {
+                               const rowPage = row.box_2d ? getValuePage(row, pageCount) : null;
+                               const isFocused = focus?.fieldId === field.id && focus.rowIndex === rowIndex;
+                               return (
+                                 <tr
+                                   key={rowIndex}
+                                   onClick={(e) => {
+                                     e.stopPropagation();
+                                     if (rowPage) selectRegion(field.id, rowIndex, rowPage);
+                                   }}
+                                   className={`font-mono ${rowPage ? 'cursor-pointer hover:bg-indigo-50' : ''} ${isFocused ? 'bg-indigo-100' : ''}`}
+                                   title={rowPage && pageCount > 1 ? `Page ${rowPage}` : undefined}
+                                 >
+                                   <td className="px-2 py-1 border text-gray-400">{rowIndex + 1}</td>
+                                   {(field.columns || []).map(column => {
+                                     const cell = row.cells[column.key];
+                                     return (
+                                       <td
+                                         key={column.id}
+                                         className={`px-2 py-1 border whitespace-nowrap ${cell?.error ? 'text-red-700 bg-red-50' : 'text-gray-900'}`}
+                                         title={cell?.error || undefined}
+                                       >
+                                         {formatExtractedValue(cell, column) || '-'}
+                                       </td>
+                                     );
+                                   })}
+                                 </tr>
+                               );
+                             })}
+                           </tbody>
+                         </table>
+                       </div>
+                     )}
                    </div>
                  );
                })}
@@ -78,17 +423,87 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
           </div>
 
           {/* Visualizer Area */}
-          <div className="flex-1 bg-gray-100 overflow-auto relative flex items-center justify-center p-8">
-            <div 
-              className="relative shadow-lg transition-transform duration-200 origin-top-center"
-              style={{ transform: `scale(${scale})` }}
-            >
-              <img 
-                src={displayUrl} 
-                alt="Document Preview" 
-                className="max-w-none bg-white"
-                style={{ maxHeight: 'none', maxWidth: '100%' }} 
-              />
+          <div
+            ref={scrollRef}
+            className={`flex-1 bg-gray-100 overflow-auto relative ${isDrawing ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            onMouseDown={startPan}
+            onMouseMove={pan}
+            onMouseUp={() => { panRef.current = null; }}
+            onMouseLeave={() => { panRef.current = null; }}
+          >
+            <div className="min-w-full min-h-full w-max flex items-start justify-center p-8">
+              <div
+                ref={pageRef}
+                className="relative shadow-lg bg-white shrink-0"
+                style={{ width: `${BASE_PAGE_WIDTH * scale}px` }}
+              >
+                {displayUrl ? (
+                  <>
+                    <img
+                      src={displayUrl}
+                      alt="Document Preview"
+                      className="block w-full select-none"
+                      draggable={false}
+                    />
+                    {/* Extracted regions */}
+                    {regions.map(region => {
+                      const isFocused = focus?.fieldId === region.fieldId && focus.rowIndex === region.rowIndex;
+                      const isHighlighted = isFocused || hoveredFieldId === region.fieldId;
+                      return (
+                        <div
+                          key={`${region.fieldId}:${region.rowIndex ?? ''}`}
+                          className="absolute cursor-pointer transition-colors"
+                          style={{
+                            ...boxStyle(region.box),
+                            border: `${isHighlighted ? 3 : 2}px solid ${region.color}`,
+                            backgroundColor: region.color + (isHighlighted ? '40' : '1a'),
+                            zIndex: isHighlighted ? 2 : 1
+                          }}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          onMouseEnter={() => setHoveredFieldId(region.fieldId)}
+                          onMouseLeave={() => setHoveredFieldId(null)}
+                          onClick={() => {
+                            setFocus({ fieldId: region.fieldId, rowIndex: region.rowIndex });
+                            cardRefs.current[region.fieldId]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+                          }}
+                        >
+                          {isHighlighted && (
+                            <span
+                              className="absolute bottom-full left-0 mb-0.5 px-1.5 py-0.5 text-xs font-bold text-white whitespace-nowrap rounded-sm"
+                              style={{ backgroundColor: region.color }}
+                            >
+                              {region.label}
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {editingField && editOverlayBox && (
+                      <div
+                        className="absolute border-2 border-dashed pointer-events-none"
+                        style={{ ...boxStyle(editOverlayBox), borderColor: editingField.color, backgroundColor: editingField.color + '20', zIndex: 3 }}
+                      />
+                    )}
+                    {editingField && isDrawing && (
+                      <div
+                        className="absolute inset-0 cursor-crosshair"
+                        style={{ zIndex: 4 }}
+                        onMouseDown={(e) => {
+                          e.stopPropagation();
+                          startDrag(e);
+                        }}
+                        onMouseMove={(e) => drag && setDrag({ ...drag, end: pointFromEvent(e) })}
+                        onMouseUp={finishDrag}
+                        onMouseLeave={finishDrag}
+                      />
+                    )}
+                  </>
+                ) : (
+                  <div className="h-[32rem] flex items-center justify-center text-sm text-gray-400">
+                    Rendering page {page}...
+                  </div>
+                )}
+              </div>
             </div>
           </div>
 
@@ -98,4 +513,4 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
   );
 };
 
-export default DocumentViewer;
\ No newline at end of file
+export default DocumentViewer;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { ListChecks, MessageSquare, Send } from 'lucide-react';
+import { ExceptionCategory, ExceptionStatus, ReconcileException } from '../types';
+import { EXCEPTION_CATEGORIES, EXCEPTION_STATUSES, countByStatus } from '../exceptions';
+
+interface ExceptionsPanelProps {
+  exceptions: ReconcileException[];
+  reviewer: string;
+  onReviewerChange: (reviewer: string) => void;
+  onChange: (exceptions: ReconcileException[]) => void;
+}
+
+const CATEGORY_STYLES: Record<ExceptionCategory, string> = {
+  missing_in_source: 'bg-purple-100 text-purple-700',
+  missing_in_reference: 'bg-blue-100 text-blue-700',
+  value_difference: 'bg-amber-100 text-amber-700'
+};
+
+const STATUS_STYLES: Record<ExceptionStatus, string> = {
+  open: 'text-red-600',
+  explained: 'text-green-700',
+  proposed_adjustment: 'text-amber-600',
+  adjusted: 'text-indigo-700'
+};
+
+const ExceptionsPanel: React.FC<ExceptionsPanelProps> = ({ exceptions, reviewer, onReviewerChange, onChange }) => {
+  const [statusFilter, setStatusFilter] = useState<ExceptionStatus | 'all'>('all');
+  const [categoryFilter, setCategoryFilter] = useState<ExceptionCategory | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draftComment, setDraftComment] = useState('');
+
+  const counts = countByStatus(exceptions);
+  const visible = exceptions.filter(e =>
+    (statusFilter === 'all' || e.status === statusFilter) && (categoryFilter === 'all' || e.category === categoryFilter));
+
+  const update = (id: string, updates: Partial<ReconcileException>) => {
+    onChange(exceptions.map(e => e.id === id ? { ...e, ...updates, updatedAt: new Date().toISOString() } : e));
+  };
+
+  const addComment = (exception: ReconcileException) => {
+    const text = draftComment.trim();
+    if (!text) return;
+    onChange(exceptions.map(e => e.id === exception.id
+      ? { ...e, comments: [...e.comments, { author: reviewer.trim(), at: new Date().toISOString(), text }] }
+      : e));
+    setDraftComment('');
+  };
+
+  const selectClass = "px-2 py-1 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-white border rounded-xl shadow-sm p-6 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <ListChecks className="text-indigo-600" size={20} />
+          Exceptions
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {EXCEPTION_STATUSES.map(s => (
+            <span key={s.status} className={`font-medium ${STATUS_STYLES[s.status]}`}>
+              {s.label}: {counts[s.status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as ExceptionStatus | 'all')} className={selectClass}>
+          <option value="all">All statuses ({exceptions.length})</option>
+          {EXCEPTION_STATUSES.map(s => <option key={s.status} value={s.status}>{s.label} ({counts[s.status]})</option>)}
+        </select>
+        <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value as ExceptionCategory | 'all')} className={selectClass}>
+          <option value="all">All categories</option>
+          {(Object.keys(EXCEPTION_CATEGORIES) as ExceptionCategory[]).map(c => <option key={c} value={c}>{EXCEPTION_CATEGORIES[c]}</option>)}
+        </select>
+        <label className="flex items-center gap-2 ml-auto text-gray-600">
+          Reviewer
+          <input
+            value={reviewer}
+            onChange={(e) => onReviewerChange(e.target.value)}
+            placeholder="Your name"
+            className={`${selectClass} w-40`}
+          />
+        </label>
+      </div>
+
+      {exceptions.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 py-8">No exceptions: every row tied out.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-xs text-gray-500 border-b">
+            <tr>
+              <th className="text-left font-medium pb-2 w-36">Category</th>
+              <th className="text-left font-medium pb-2">Item</th>
+              <th className="text-left font-medium pb-2 w-48">Status</th>
+              <th className="text-left font-medium pb-2 w-1/4">Resolution</th>
+              <th className="pb-2 w-12" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visible.map(exception => (
+              <React.Fragment key={exception.id}>
+                <tr className="align-top">
+                  <td className="py-2 pr-2">
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${CATEGORY_STYLES[exception.category]}`}>
+                      {EXCEPTION_CATEGORIES[exception.category]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-2">
+                    {exception.fileName && <div className="font-medium text-gray-900">{exception.fileName}</div>}
+                    <div className="text-xs text-gray-500 break-words">{exception.detail}</div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={exception.status}
+                      onChange={(e) => update(exception.id, { status: e.target.value as ExceptionStatus })}
+                      className={`${selectClass} w-full font-medium ${STATUS_STYLES[exception.status]}`}
+                    >
+                      {EXCEPTION_STATUSES.map(s => <option key={s.status} value={s.status}>{s.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <textarea
+                      value={exception.resolution}
+                      onChange={(e) => update(exception.id, { resolution: e.target.value })}
+                      placeholder="How it was resolved"
+                      rows={1}
+                      className="w-full px-2 py-1 border rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => { setExpandedId(expandedId === exception.id ? null : exception.id); setDraftComment(''); }}
+                      className={`inline-flex items-center gap-1 text-xs ${exception.comments.length > 0 ? 'text-indigo-600' : 'text-gray-400'} hover:text-indigo-800`}
+                      title="Comments"
+                    >
+                      <MessageSquare size={14} />
+                      {exception.comments.length > 0 && exception.comments.length}
+                    </button>
+                  </td>
+                </tr>
+                {expandedId === exception.id && (
+                  <tr>
+                    <td />
+                    <td colSpan={4} className="pb-3">
+                      <div className="bg-gray-50 border rounded-lg p-3 space-y-2">
+                        {exception.comments.map((comment, i) => (
+                          <div key={i} className="text-sm">
+                            <span className="font-medium text-gray-800">{comment.author || 'Unknown reviewer'}</span>
+                            <span className="text-xs text-gray-400 ml-2">{new Date(comment.at).toLocaleString()}</span>
+                            <p className="text-gray-700 whitespace-pre-wrap">{comment.text}</p>
+                          </div>
+                        ))}
+                        <div className="flex gap-2">
+                          <input
+                            value={draftComment}
+                            onChange={(e) => setDraftComment(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') addComment(exception); }}
+                            placeholder="Add a comment"
+                            className="flex-1 px-2 py-1 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                          />
+                          <button
+                            onClick={() => addComment(exception)}
+                            disabled={!draftComment.trim()}
+                            className="p-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                            title="Add comment"
+                          >
+                            <Send size={14} />
+                          </button>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ExceptionsPanel;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { ColumnType, FieldDefinition, FieldOptions, FieldType, TableColumn } from '../types';
+import { createDefaultColumns, DATE_FORMATS, FIELD_TYPE_OPTIONS, inferFieldType, isNumericType } from '../fieldTypes';
+import { sanitizeKey } from '../utils';
+
+interface FieldEditorProps {
+  field: FieldDefinition;
+  onChange: (patch: Partial<FieldDefinition>) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const splitList = (text: string, separator: string): string[] =>
+  text.split(separator).map(v => v.trim()).filter(Boolean);
+
+const FieldEditor: React.FC<FieldEditorProps> = ({ field, onChange }) => {
+  const [newColumnName, setNewColumnName] = useState('');
+  const options = field.options || {};
+  const columns = field.columns || [];
+  const updateOptions = (patch: Partial<FieldOptions>) => onChange({ options: { ...options, ...patch } });
+
+  const updateColumn = (id: string, patch: Partial<TableColumn>) => {
+    onChange({ columns: columns.map(c => c.id === id ? { ...c, ...patch } : c) });
+  };
+
+  const addColumn = () => {
+    const name = newColumnName.trim();
+    if (!name) return;
+    const inferred = inferFieldType(name);
+    const type: ColumnType = inferred === 'table' ? 'text' : inferred;
+    onChange({ columns: [...columns, { id: uuidv4(), name, key: sanitizeKey(name), type }] });
+    setNewColumnName('');
+  };
+
+  return (
+    <div className="space-y-2 pt-3 mt-3 border-t">
+      <label className="block">
+        <span className="text-xs font-medium text-gray-500">Description</span>
+        <textarea
+          value={field.description || ''}
+          onChange={(e) => onChange({ description: e.target.value })}
+          rows={2}
+          placeholder="e.g. Total payable including tax"
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-500">Labels to look for (comma separated)</span>
+        <input
+          type="text"
+          defaultValue={(field.synonyms || []).join(', ')}
+          onBlur={(e) => onChange({ synonyms: splitList(e.target.value, ',') })}
+          placeholder="e.g. Grand Total, Amount Due"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-500">Do not use (one per line)</span>
+        <textarea
+          defaultValue={(field.negativeHints || []).join('\n')}
+          onBlur={(e) => onChange({ negativeHints: splitList(e.target.value, '\n') })}
+          rows={2}
+          placeholder={"e.g. Not the subtotal\nNot the tax line"}
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-500">Type</span>
+        <select
+          value={field.type}
+          onChange={(e) => {
+            const type = e.target.value as FieldType;
+            onChange(type === 'table' && !field.columns?.length ? { type, columns: createDefaultColumns() } : { type });
+          }}
+          className={`${inputClass} bg-white`}
+        >
+          {FIELD_TYPE_OPTIONS.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+        </select>
+      </label>
+
+      {field.type === 'date' && (
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Printed date format</span>
+          <select
+            value={options.dateFormat || ''}
+            onChange={(e) => updateOptions({ dateFormat: e.target.value || undefined })}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Auto-detect</option>
+            {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </label>
+      )}
+
+      {isNumericType(field.type) && (
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Decimal separator</span>
+          <select
+            value={options.decimalSeparator || ''}
+            onChange={(e) => updateOptions({ decimalSeparator: (e.target.value || undefined) as FieldOptions['decimalSeparator'] })}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Auto-detect</option>
+            <option value=".">Point (1,234.56)</option>
+            <option value=",">Comma (1.234,56)</option>
+          </select>
+        </label>
+      )}
+
+      {field.type === 'table' && (
+        <div>
+          <span className="text-xs font-medium text-gray-500">Columns</span>
+          <div className="space-y-1.5 mt-1">
+            {columns.map(column => (
+              <div key={column.id} className="flex items-center gap-1.5">
+                <input
+                  type="text"
+                  defaultValue={column.name}
+                  onBlur={(e) => e.target.value.trim() && updateColumn(column.id, {
+                    name: e.target.value.trim(),
+                    key: sanitizeKey(e.target.value.trim())
+                  })}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+                <select
+                  value={column.type}
+                  onChange={(e) => updateColumn(column.id, { type: e.target.value as ColumnType })}
+                  className="px-1 py-1.5 border rounded-md text-xs bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  {FIELD_TYPE_OPTIONS.filter(t => t.type !== 'table').map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                </select>
+                <button
+                  onClick={() => onChange({ columns: columns.filter(c => c.id !== column.id) })}
+                  className="text-gray-400 hover:text-red-500 transition"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1.5 mt-1.5">
+            <input
+              type="text"
+              value={newColumnName}
+              onChange={(e) => setNewColumnName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addColumn()}
+              placeholder="New column"
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={addColumn} className="bg-gray-900 text-white px-2 rounded-md hover:bg-gray-800 transition">
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {field.type === 'enum' && (
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Allowed values (comma separated)</span>
+          <input
+            type="text"
+            defaultValue={(options.allowedValues || []).join(', ')}
+            onBlur={(e) => updateOptions({
+              allowedValues: splitList(e.target.value, ',')
+            })}
+            placeholder="e.g. Approved, Rejected, Pending"
+            className={inputClass}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default FieldEditor;
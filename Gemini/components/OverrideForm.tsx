@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Crop } from 'lucide-react';
+import { BoundingBox, ExtractedValue, FieldDefinition } from '../types';
+import { OverrideAudit, OverrideEdit } from '../overrides';
+
+interface OverrideFormProps {
+  field: FieldDefinition;
+  extracted?: ExtractedValue;
+  reviewer: string;
+  pendingBox: { box: BoundingBox; page: number } | null;
+  isDrawing: boolean;
+  onToggleDrawing: () => void;
+  onSave: (edit: OverrideEdit, audit: OverrideAudit) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const OverrideForm: React.FC<OverrideFormProps> = ({
+  field, extracted, reviewer: initialReviewer, pendingBox, isDrawing, onToggleDrawing, onSave, onCancel
+}) => {
+  const isTable = field.type === 'table';
+  const [text, setText] = useState(extracted?.raw_text ?? (extracted?.value === null || extracted?.value === undefined ? '' : String(extracted.value)));
+  const [notApplicable, setNotApplicable] = useState(!!extracted?.override?.notApplicable);
+  const [reason, setReason] = useState('');
+  const [reviewer, setReviewer] = useState(initialReviewer);
+
+  const canSave = reviewer.trim() !== '' && reason.trim() !== '';
+
+  const save = () => {
+    if (!canSave) return;
+    const edit: OverrideEdit = notApplicable ? { notApplicable: true } : {};
+    if (!notApplicable && !isTable) {
+      edit.text = text;
+      if (pendingBox) {
+        edit.box_2d = pendingBox.box;
+        edit.page = pendingBox.page;
+      }
+    }
+    onSave(edit, { reviewer, reason });
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t space-y-2" onClick={(e) => e.stopPropagation()}>
+      {!isTable && (
+        <div className="flex gap-1.5">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={notApplicable}
+            placeholder="Corrected value"
+            className={`${inputClass} font-mono disabled:bg-gray-100`}
+          />
+          <button
+            onClick={onToggleDrawing}
+            disabled={notApplicable}
+            className={`px-2 rounded-md border transition disabled:opacity-40 ${isDrawing ? 'bg-indigo-100 text-indigo-600 border-indigo-300' : 'text-gray-500 hover:text-indigo-600'}`}
+            title="Draw or move the box on the page"
+          >
+            <Crop size={14} />
+          </button>
+        </div>
+      )}
+      {pendingBox && !notApplicable && (
+        <p className="text-xs text-indigo-600">New box on page {pendingBox.page}</p>
+      )}
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={notApplicable} onChange={(e) => setNotApplicable(e.target.checked)} />
+        Not applicable to this document
+      </label>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason for the change"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={reviewer}
+        onChange={(e) => setReviewer(e.target.value)}
+        placeholder="Reviewer"
+        className={inputClass}
+      />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-md">Cancel</button>
+        <button
+          onClick={save}
+          disabled={!canSave}
+          className="px-3 py-1 text-xs font-medium bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:bg-gray-300"
+          title={canSave ? undefined : 'Enter a reason and reviewer'}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OverrideForm;
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Cpu, ChevronDown, Trash2 } from 'lucide-react';
+import { ProviderKind, ProviderSettings, QueueSettings } from '../types';
+import { DEFAULT_OPENAI_BASE_URL, PROVIDER_OPTIONS } from '../providers';
+import { clearExtractionCache, countCachedExtractions } from '../extractionCache';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  disabled?: boolean;
+  onChange: (settings: ProviderSettings) => void;
+  queueSettings: QueueSettings;
+  onQueueSettingsChange: (settings: QueueSettings) => void;
+  useCache: boolean;
+  onUseCacheChange: (useCache: boolean) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({
+  settings, disabled, onChange, queueSettings, onQueueSettingsChange, useCache, onUseCacheChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+  const current = PROVIDER_OPTIONS.find(p => p.kind === settings.kind);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    countCachedExtractions()
+      .then(setCachedCount)
+      .catch(error => {
+        console.error("Failed to read the extraction cache", error);
+        setCachedCount(null);
+      });
+  }, [isOpen]);
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Clear all cached extraction results? Documents already extracted keep their results.")) return;
+    try {
+      await clearExtractionCache();
+      setCachedCount(0);
+    } catch (error) {
+      console.error("Failed to clear the extraction cache", error);
+      alert("Could not clear the extraction cache.");
+    }
+  };
+
+  const changeKind = (kind: ProviderKind) => {
+    const option = PROVIDER_OPTIONS.find(p => p.kind === kind);
+    onChange({
+      kind,
+      model: option?.defaultModel || '',
+      baseUrl: kind === 'openai' ? settings.baseUrl || DEFAULT_OPENAI_BASE_URL : undefined,
+      apiKey: undefined,
+      retryInvalidFields: settings.retryInvalidFields
+    });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition disabled:opacity-50 text-sm"
+        title="AI provider"
+      >
+        <Cpu size={16} />
+        <span className="max-w-[160px] truncate">{current?.label} · {settings.model}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border rounded-lg shadow-lg p-4 space-y-3 z-30">
+          <label className="block">
+            <span className="text-xs font-medium text-gray-500">Provider</span>
+            <select
+              value={settings.kind}
+              onChange={(e) => changeKind(e.target.value as ProviderKind)}
+              className={`${inputClass} bg-white`}
+            >
+              {PROVIDER_OPTIONS.map(p => <option key={p.kind} value={p.kind}>{p.label}</option>)}
+            </select>
+          </label>
+
+          {settings.kind !== 'mock' && (
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">Model</span>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => onChange({ ...settings, model: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {settings.kind === 'openai' && (
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">Base URL</span>
+              <input
+                type="text"
+                value={settings.baseUrl || ''}
+                onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                placeholder={DEFAULT_OPENAI_BASE_URL}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {settings.kind !== 'mock' && (
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">API Key</span>
+              <input
+                type="password"
+                value={settings.apiKey || ''}
+                onChange={(e) => onChange({ ...settings, apiKey: e.target.value || undefined })}
+                placeholder={settings.kind === 'gemini' ? 'Uses GEMINI_API_KEY when empty' : 'Optional for local servers'}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 pt-3 border-t">
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">Documents at once</span>
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={queueSettings.concurrency}
+                onChange={(e) => onQueueSettingsChange({ ...queueSettings, concurrency: Math.max(1, Math.min(20, Number(e.target.value) || 1)) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">Max retries</span>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={queueSettings.maxRetries}
+                onChange={(e) => onQueueSettingsChange({ ...queueSettings, maxRetries: Math.max(0, Math.min(10, Number(e.target.value) || 0)) })}
+                className={inputClass}
+              />
+            </label>
+            <p className="col-span-2 text-xs text-gray-400">
+              Rate-limit and server errors are retried with exponential backoff. Lower the documents at once if the provider keeps returning 429.
+            </p>
+            <label className="col-span-2 flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.retryInvalidFields !== false}
+                onChange={(e) => onChange({ ...settings, retryInvalidFields: e.target.checked })}
+                className="mt-0.5 accent-indigo-600"
+              />
+              <span>
+                Ask again for invalid fields
+                <span className="block text-xs text-gray-400">One extra request per document when fields are missing or their boxes are unusable</span>
+              </span>
+            </label>
+          </div>
+
+          <div className="flex items-start justify-between gap-2 pt-3 border-t">
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={useCache}
+                onChange={(e) => onUseCacheChange(e.target.checked)}
+                className="mt-0.5 accent-indigo-600"
+              />
+              <span>
+                Use cached results
+                <span className="block text-xs text-gray-400">
+                  Same file, fields and model return instantly{cachedCount !== null && ` · ${cachedCount} cached`}
+                </span>
+              </span>
+            </label>
+            <button
+              onClick={handleClearCache}
+              disabled={cachedCount === 0}
+              className="p-1.5 rounded-md text-gray-400 hover:text-red-500 hover:bg-red-50 transition disabled:opacity-30 disabled:pointer-events-none"
+              title="Clear the extraction cache"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-1.5 text-sm font-medium bg-gray-900 text-white rounded-md hover:bg-gray-800 transition"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileSpreadsheet } from 'lucide-react';
+import {
+  CSV_DELIMITERS, REFERENCE_COLUMN_TYPES, REFERENCE_DATE_ORDERS, ReferenceColumnType, ReferenceDateOrder, ReferenceWorkbook,
+  buildReferenceImport, detectHeaderRow, withDelimiter
+} from '../referenceImport';
+
+interface ReferenceImportDialogProps {
+  workbook: ReferenceWorkbook;
+  onImport: (rows: Record<string, any>[], fileName: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const formatCell = (value: any) => value === null || value === undefined ? '' : String(value);
+
+const ReferenceImportDialog: React.FC<ReferenceImportDialogProps> = ({ workbook: initialWorkbook, onImport, onCancel }) => {
+  const [workbook, setWorkbook] = useState(initialWorkbook);
+  // Default to the first sheet that has a header-like row, skipping cover sheets
+  const [sheetIndex, setSheetIndex] = useState(() => {
+    const index = initialWorkbook.sheets.findIndex(s => s.rows.filter(row => row.some(cell => cell !== null && cell !== '')).length > 1);
+    return index === -1 ? 0 : index;
+  });
+  const sheet = workbook.sheets[sheetIndex];
+  const [headerRow, setHeaderRow] = useState(() => detectHeaderRow(sheet.rows));
+  const [skipTotals, setSkipTotals] = useState(true);
+  const [columnTypes, setColumnTypes] = useState<Record<string, ReferenceColumnType>>({});
+  const [dateOrders, setDateOrders] = useState<Record<string, ReferenceDateOrder>>({});
+
+  const result = useMemo(
+    () => buildReferenceImport(sheet, { headerRow, skipTotals, columnTypes, dateOrders }),
+    [sheet, headerRow, skipTotals, columnTypes, dateOrders]
+  );
+
+  const changeSheet = (index: number) => {
+    setSheetIndex(index);
+    setHeaderRow(detectHeaderRow(workbook.sheets[index].rows));
+    setColumnTypes({});
+    setDateOrders({});
+  };
+
+  const changeDelimiter = (delimiter: string) => {
+    const next = withDelimiter(workbook, delimiter);
+    setWorkbook(next);
+    setHeaderRow(detectHeaderRow(next.sheets[0].rows));
+    setColumnTypes({});
+    setDateOrders({});
+  };
+
+  const selectClass = "px-2 py-1.5 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b bg-gray-50">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="text-green-600" size={22} />
+            <div>
+              <h3 className="font-bold text-lg text-gray-800">Import Reference Data</h3>
+              <p className="text-sm text-gray-500">
+                {workbook.fileName}
+                {workbook.csv && ` · ${workbook.csv.encoding}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 bg-gray-200 hover:bg-gray-300 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b flex flex-wrap items-end gap-4 text-sm">
+          {workbook.sheets.length > 1 && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-500">Sheet</span>
+              <select value={sheetIndex} onChange={(e) => changeSheet(Number(e.target.value))} className={selectClass}>
+                {workbook.sheets.map((s, i) => <option key={s.name} value={i}>{s.name}</option>)}
+              </select>
+            </label>
+          )}
+          {workbook.csv && (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-500">Delimiter</span>
+              <select value={workbook.csv.delimiter} onChange={(e) => changeDelimiter(e.target.value)} className={selectClass}>
+                {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-500">Header row</span>
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, sheet.rows.length)}
+              value={headerRow + 1}
+              onChange={(e) => {
+                setHeaderRow(Math.min(Math.max(0, Number(e.target.value) - 1), Math.max(0, sheet.rows.length - 1)));
+                setColumnTypes({});
+                setDateOrders({});
+    setDateOrders({});
+              }}
+              className={`${selectClass} w-24`}
+            />
+          </label>
+          <label className="flex items-center gap-2 pb-1.5 text-gray-700">
+            <input type="checkbox" checked={skipTotals} onChange={(e) => setSkipTotals(e.target.checked)} className="accent-indigo-600" />
+            Skip total rows
+          </label>
+          <span className="pb-1.5 ml-auto text-gray-500">
+            {result.rows.length} rows{result.skippedRows > 0 && `, ${result.skippedRows} blank or total rows skipped`}
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {result.columns.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-12">No columns found below this header row.</p>
+          ) : (
+            <table className="w-full text-left text-sm border-collapse">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {result.columns.map(column => (
+                    <th key={column.name} className="px-3 py-2 border-b align-top">
+                      <div className="font-semibold text-gray-800 whitespace-nowrap">{column.name}</div>
+                      <select
+                        value={column.type}
+                        onChange={(e) => setColumnTypes(prev => ({ ...prev, [column.name]: e.target.value as ReferenceColumnType }))}
+                        className="mt-1 px-1 py-0.5 border rounded text-xs bg-white text-gray-600"
+                      >
+                        {REFERENCE_COLUMN_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                      </select>
+                      {column.dateOrder && (
+                        <select
+                          value={column.dateOrder}
+                          onChange={(e) => setDateOrders(prev => ({ ...prev, [column.name]: e.target.value as ReferenceDateOrder }))}
+                          className="mt-1 ml-1 px-1 py-0.5 border rounded text-xs bg-white text-gray-600"
+                          title="How dates such as 03/04/2024 are read"
+                        >
+                          {REFERENCE_DATE_ORDERS.map(o => <option key={o.order} value={o.order}>{o.label}</option>)}
+                        </select>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i}>
+                    {result.columns.map(column => (
+                      <td
+                        key={column.name}
+                        className={`px-3 py-1.5 whitespace-nowrap ${typeof row[column.name] === 'number' ? 'text-right font-mono' : 'text-gray-700'}`}
+                      >
+                        {formatCell(row[column.name])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {result.rows.length > PREVIEW_ROWS && (
+            <p className="px-3 py-2 text-xs text-gray-400">Showing the first {PREVIEW_ROWS} of {result.rows.length} rows.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-white">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(result.rows, workbook.fileName)}
+            disabled={result.rows.length === 0}
+            className="px-4 py-2 text-sm font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Load {result.rows.length} rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceImportDialog;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import {
+  SessionSummary, listSessions, deleteSession, deleteAllSessions, getStorageEstimate, formatBytes
+} from '../sessionStore';
+
+interface SessionManagerProps {
+  currentSessionId: string;
+  onRestore: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const SessionManager: React.FC<SessionManagerProps> = ({ currentSessionId, onRestore, onClose }) => {
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions());
+      setStorage(await getStorageEstimate());
+    } catch (error) {
+      console.error("Failed to list sessions", error);
+      setSessions([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDelete = async (sessionId: string) => {
+    await deleteSession(sessionId);
+    refresh();
+  };
+
+  const handleDeleteAll = async () => {
+    if (!window.confirm("Delete all stored sessions except the current one?")) return;
+    await deleteAllSessions(currentSessionId);
+    refresh();
+  };
+
+  const storedBytes = (sessions || []).reduce((sum, s) => sum + s.bytes, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b bg-gray-50">
+          <div>
+            <h3 className="font-bold text-lg text-gray-800">Stored Sessions</h3>
+            <p className="text-sm text-gray-500">
+              Work is saved in this browser as you go.
+              {sessions && ` ${formatBytes(storedBytes)} in ${sessions.length} session${sessions.length === 1 ? '' : 's'}.`}
+              {storage && storage.quota > 0 && ` Site storage: ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)}.`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-200 hover:bg-gray-300 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y">
+          {sessions === null ? (
+            <div className="flex justify-center py-12"><Loader2 className="animate-spin text-indigo-600" /></div>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-12">No stored sessions.</p>
+          ) : sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900">
+                  {formatDate(session.updatedAt)}
+                  {session.id === currentSessionId && <span className="ml-2 text-xs text-indigo-600">(current)</span>}
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {session.extractedCount}/{session.documentCount} documents extracted · {formatBytes(session.bytes)}
+                  {session.fieldNames.length > 0 && ` · ${session.fieldNames.join(', ')}`}
+                </div>
+              </div>
+              {session.id !== currentSessionId && (
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => onRestore(session.id)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-indigo-700 hover:bg-indigo-50 rounded-md"
+                  >
+                    <RotateCcw size={14} />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    className="p-1 text-gray-400 hover:text-red-500 transition"
+                    title="Delete session"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {sessions && sessions.some(s => s.id !== currentSessionId) && (
+          <div className="p-4 border-t bg-gray-50 flex justify-end">
+            <button
+              onClick={handleDeleteAll}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-700 border border-red-200 rounded-lg hover:bg-red-50"
+            >
+              <Trash2 size={14} />
+              Delete all other sessions
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionManager;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Copy, Save, Pencil, Trash2, Upload, Download } from 'lucide-react';
+import { FieldTemplate } from '../types';
+
+interface TemplatePickerProps {
+  templates: FieldTemplate[];
+  activeTemplateId: string;
+  isModified: boolean; // Field list differs from the active template
+  onSelect: (templateId: string) => void;
+  onSave: () => void;
+  onDuplicate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const iconButton = "p-1.5 rounded-md text-gray-500 hover:text-indigo-600 hover:bg-white transition disabled:opacity-30 disabled:pointer-events-none";
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates, activeTemplateId, isModified, onSelect, onSave, onDuplicate, onRename, onDelete, onImport, onExport
+}) => {
+  const active = templates.find(t => t.id === activeTemplateId);
+  const builtInTemplates = templates.filter(t => t.builtIn);
+  const customTemplates = templates.filter(t => !t.builtIn);
+
+  return (
+    <div className="mt-3 space-y-1.5">
+      <div className="flex items-center gap-2">
+        <select
+          value={activeTemplateId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1.5 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          <optgroup label="Built-in">
+            {builtInTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </optgroup>
+          {customTemplates.length > 0 && (
+            <optgroup label="My templates">
+              {customTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {isModified && <span className="text-xs text-amber-600 whitespace-nowrap" title="The field list has unsaved changes">Modified</span>}
+      </div>
+      <div className="flex items-center gap-0.5">
+        <button onClick={onSave} disabled={!isModified} className={iconButton} title={active?.builtIn ? 'Save as a new template' : 'Save changes to this template'}>
+          <Save size={14} />
+        </button>
+        <button onClick={onDuplicate} className={iconButton} title="Duplicate as a new template">
+          <Copy size={14} />
+        </button>
+        <button onClick={onRename} disabled={!active || active.builtIn} className={iconButton} title="Rename template">
+          <Pencil size={14} />
+        </button>
+        <button onClick={onDelete} disabled={!active || active.builtIn} className={iconButton} title="Delete template">
+          <Trash2 size={14} />
+        </button>
+        <span className="flex-1" />
+        <label className={`${iconButton} cursor-pointer`} title="Import templates (JSON)">
+          <Upload size={14} />
+          <input
+            type="file"
+            className="hidden"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </label>
+        <button onClick={onExport} className={iconButton} title="Export templates (JSON)">
+          <Download size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePicker;
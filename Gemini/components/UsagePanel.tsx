@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Coins, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { ModelPrice } from '../types';
+import { DEFAULT_PRICES, UsageSummary, formatCost, formatTokens } from '../usage';
+
+interface UsagePanelProps {
+  extraction: UsageSummary;
+  reconciliation: UsageSummary;
+  prices: ModelPrice[];
+  onPricesChange: (prices: ModelPrice[]) => void;
+}
+
+const cellInput = "w-full px-2 py-1 border rounded text-xs focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const UsageLine: React.FC<{ label: string; summary: UsageSummary; bold?: boolean }> = ({ label, summary, bold }) => (
+  <tr className={bold ? 'font-semibold text-gray-900 border-t' : 'text-gray-700'}>
+    <td className="py-1">{label}</td>
+    <td className="py-1 text-right font-mono">{formatTokens(summary.promptTokens)}</td>
+    <td className="py-1 text-right font-mono">{formatTokens(summary.responseTokens)}</td>
+    <td className="py-1 text-right font-mono">{formatCost(summary.cost)}</td>
+  </tr>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ extraction, reconciliation, prices, onPricesChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const total: UsageSummary = {
+    promptTokens: extraction.promptTokens + reconciliation.promptTokens,
+    responseTokens: extraction.responseTokens + reconciliation.responseTokens,
+    cost: extraction.cost + reconciliation.cost,
+    unpriced: extraction.unpriced + reconciliation.unpriced
+  };
+
+  const updatePrice = (index: number, updates: Partial<ModelPrice>) => {
+    onPricesChange(prices.map((p, i) => i === index ? { ...p, ...updates } : p));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition text-sm"
+        title={`AI usage: ${formatTokens(total.promptTokens + total.responseTokens)} tokens`}
+      >
+        <Coins size={16} />
+        <span className="font-mono">{formatCost(total.cost)}{total.unpriced > 0 && '*'}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border rounded-lg shadow-lg p-4 space-y-4 z-30">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500">
+              <tr>
+                <th className="text-left font-medium pb-1">AI usage</th>
+                <th className="text-right font-medium pb-1">Prompt</th>
+                <th className="text-right font-medium pb-1">Response</th>
+                <th className="text-right font-medium pb-1">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              <UsageLine label="Extraction" summary={extraction} />
+              <UsageLine label="Reconciliation" summary={reconciliation} />
+              <UsageLine label="Total" summary={total} bold />
+            </tbody>
+          </table>
+          {total.unpriced > 0 && (
+            <p className="text-xs text-amber-600">
+              * {total.unpriced} run{total.unpriced === 1 ? '' : 's'} used a model with no price below, so the cost is incomplete.
+            </p>
+          )}
+
+          <div className="pt-3 border-t">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-medium text-gray-500">Prices (USD per million tokens)</span>
+              <button
+                onClick={() => onPricesChange(DEFAULT_PRICES)}
+                className="text-xs text-indigo-600 hover:underline"
+              >
+                Reset to list prices
+              </button>
+            </div>
+            <div className="space-y-1.5 max-h-48 overflow-y-auto">
+              <div className="grid grid-cols-[1fr_70px_70px_24px] gap-1.5 text-xs text-gray-400">
+                <span>Model</span><span>Input</span><span>Output</span><span />
+              </div>
+              {prices.map((price, i) => (
+                <div key={i} className="grid grid-cols-[1fr_70px_70px_24px] gap-1.5 items-center">
+                  <input value={price.model} onChange={(e) => updatePrice(i, { model: e.target.value })} className={cellInput} />
+                  <input
+                    type="number" min={0} step="0.01"
+                    value={price.inputPerMillion}
+                    onChange={(e) => updatePrice(i, { inputPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                    className={cellInput}
+                  />
+                  <input
+                    type="number" min={0} step="0.01"
+                    value={price.outputPerMillion}
+                    onChange={(e) => updatePrice(i, { outputPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                    className={cellInput}
+                  />
+                  <button
+                    onClick={() => onPricesChange(prices.filter((_, j) => j !== i))}
+                    className="p-1 text-gray-400 hover:text-red-500 transition"
+                    title="Remove price"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => onPricesChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+              className="mt-2 flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <Plus size={12} /> Add model
+            </button>
+            <p className="mt-2 text-xs text-gray-400">Costs are worked out when each run finishes; changing a price does not reprice earlier runs.</p>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="px-3 py-1.5 text-sm font-medium bg-gray-900 text-white rounded-md hover:bg-gray-800 transition"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
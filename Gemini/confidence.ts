@@ -0,0 +1,129 @@
+import { DocumentResult, ExtractedValue, FieldDefinition } from './types';
+
+/**
+ * Confidence scoring. The model's own confidence is blended with checks we can make
+ * locally, so a confident answer without a box, or one that is not a valid date, still
+ * lands in the review queue.
+ */
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// Relative weight of each signal; signals that cannot be measured are left out
+const WEIGHTS = {
+  model: 0.4,
+  box: 0.2,
+  type: 0.25,
+  textLayer: 0.15
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const compact = (text: string) => text.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Model-reported confidence, accepted as 0-1 or as a percentage.
+ */
+const readModelConfidence = (extracted: ExtractedValue): number | null => {
+  const reported = extracted.model_confidence !== undefined ? extracted.model_confidence : extracted.confidence;
+  const value = typeof reported === 'string' ? parseFloat(reported) : reported;
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return clamp(value > 1 ? value / 100 : value);
+};
+
+const combine = (signals: { weight: number; score: number }[]): number => {
+  const total = signals.reduce((sum, s) => sum + s.weight, 0);
+  if (total === 0) return 0;
+  return signals.reduce((sum, s) => sum + s.weight * s.score, 0) / total;
+};
+
+/**
+ * Scores a single (non-table) value. `pageText` is the PDF text layer of the page the
+ * value was found on; pass null for images and scanned PDFs.
+ */
+export const scoreExtractedValue = (
+  extracted: ExtractedValue,
+  hasBox: boolean,
+  pageText: string | null,
+  modelConfidence: number | null = readModelConfidence(extracted)
+): ExtractedValue => {
+  // Nothing found: there is no value to be confident about
+  if (extracted.value === null && !extracted.raw_text) {
+    return { ...extracted, model_confidence: modelConfidence, confidence: null };
+  }
+
+  const signals = [
+    { weight: WEIGHTS.box, score: hasBox ? 1 : 0 },
+    { weight: WEIGHTS.type, score: extracted.error ? 0 : 1 }
+  ];
+  if (modelConfidence !== null) signals.push({ weight: WEIGHTS.model, score: modelConfidence });
+  if (pageText && pageText.trim() && extracted.raw_text) {
+    signals.push({ weight: WEIGHTS.textLayer, score: compact(pageText).includes(compact(extracted.raw_text)) ? 1 : 0 });
+  }
+
+  return { ...extracted, model_confidence: modelConfidence, confidence: Math.round(combine(signals) * 100) / 100 };
+};
+
+/**
+ * Adds a confidence to every extracted value. Table cells are scored against their
+ * row's box and confidence; the table itself takes its weakest cell.
+ */
+export const scoreExtractedData = (
+  data: Record<string, ExtractedValue>,
+  fields: FieldDefinition[],
+  pageTexts: string[]
+): Record<string, ExtractedValue> => {
+  const textFor = (page?: number | null) => pageTexts[(page || 1) - 1] ?? null;
+  const result: Record<string, ExtractedValue> = { ...data };
+
+  fields.forEach(field => {
+    const extracted = data[field.key];
+    if (!extracted) return;
+
+    if (field.type === 'table') {
+      const rows = (extracted.rows || []).map(row => {
+        const rowConfidence = readModelConfidence({ value: null, confidence: row.confidence });
+        const cells: Record<string, ExtractedValue> = {};
+        Object.entries(row.cells).forEach(([key, cell]) => {
+          cells[key] = scoreExtractedValue(cell, !!row.box_2d, textFor(row.page), readModelConfidence(cell) ?? rowConfidence);
+        });
+        return { ...row, cells };
+      });
+      const scores = rows.flatMap(row => Object.values(row.cells).map(c => c.confidence))
+        .filter((c): c is number => typeof c === 'number');
+      result[field.key] = { ...extracted, rows, confidence: scores.length > 0 ? Math.min(...scores) : null };
+      return;
+    }
+
+    result[field.key] = scoreExtractedValue(extracted, !!extracted.box_2d, textFor(extracted.page));
+  });
+
+  return result;
+};
+
+/**
+ * Values below the threshold, and values that failed validation, need a human look.
+ */
+export const needsReview = (extracted: ExtractedValue | undefined, threshold: number): boolean => {
+  if (!extracted) return false;
+  if (extracted.error) return true;
+  return typeof extracted.confidence === 'number' && extracted.confidence < threshold;
+};
+
+export const documentNeedsReview = (doc: DocumentResult, fields: FieldDefinition[], threshold: number): boolean =>
+  doc.status === 'success' && fields.some(f => needsReview(doc.data[f.key], threshold));
+
+/**
+ * Bands a confidence for colour coding: below the threshold is low, the lower half of
+ * the remaining range is medium.
+ */
+export const getConfidenceLevel = (confidence: number | null | undefined, threshold: number): ConfidenceLevel | null => {
+  if (typeof confidence !== 'number') return null;
+  if (confidence < threshold) return 'low';
+  if (confidence < threshold + (1 - threshold) / 2) return 'medium';
+  return 'high';
+};
+
+export const formatConfidence = (confidence: number | null | undefined): string =>
+  typeof confidence === 'number' ? `${Math.round(confidence * 100)}%` : '';
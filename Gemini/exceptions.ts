@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExceptionCategory, ExceptionStatus, ReconcileException } from './types';
+
+/**
+ * Reconciliation exceptions: every unmatched or mismatched row of a joined dataset
+ * becomes an item a reviewer explains, adjusts or proposes an adjustment for. Review
+ * work carries over when the reconciliation is run again.
+ */
+
+export const EXCEPTION_CATEGORIES: Record<ExceptionCategory, string> = {
+  missing_in_source: 'Missing in source',
+  missing_in_reference: 'Missing in reference',
+  value_difference: 'Value difference'
+};
+
+export const EXCEPTION_STATUSES: { status: ExceptionStatus; label: string }[] = [
+  { status: 'open', label: 'Open' },
+  { status: 'explained', label: 'Explained' },
+  { status: 'proposed_adjustment', label: 'Proposed adjustment' },
+  { status: 'adjusted', label: 'Adjusted' }
+];
+
+export const getStatusLabel = (status: ExceptionStatus) =>
+  EXCEPTION_STATUSES.find(s => s.status === status)?.label ?? status;
+
+// Columns the join adds about the match itself, left out of row descriptions
+const MATCH_COLUMNS = /^(filename|source_file|match_status|match_rule|match_score|differences|_merge)$/i;
+const DETAIL_VALUES = 4;
+
+const findValue = (row: Record<string, any>, pattern: RegExp): any => {
+  const key = Object.keys(row).find(k => pattern.test(k));
+  return key ? row[key] : undefined;
+};
+
+/**
+ * Category of a joined row, read from its match status (our own labels, or pandas'
+ * left_only/right_only merge indicator) and any recorded differences; null when it tied.
+ */
+export const categorizeRow = (row: Record<string, any>): ExceptionCategory | null => {
+  const status = String(findValue(row, /^match.?status$/i) ?? findValue(row, /^_merge$/) ?? '').toLowerCase();
+  if (/missing in source|not in source|right_only|reference only/.test(status)) return 'missing_in_source';
+  if (/missing in reference|not in reference|left_only|source only/.test(status)) return 'missing_in_reference';
+  if (/differ|mismatch|variance/.test(status)) return 'value_difference';
+  const differences = findValue(row, /^differences?$/i);
+  return differences ? 'value_difference' : null;
+};
+
+const describeRow = (row: Record<string, any>): string =>
+  Object.entries(row)
+    .filter(([key, value]) => !MATCH_COLUMNS.test(key) && value !== null && value !== undefined && value !== '' && typeof value !== 'object')
+    .slice(0, DETAIL_VALUES)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+
+const getFileName = (row: Record<string, any>): string | null => {
+  const value = findValue(row, /^(filename|source_file)$/i);
+  return value ? String(value) : null;
+};
+
+// Identifies the same exception across runs: one row per document, or the row itself
+const fingerprint = (category: ExceptionCategory, row: Record<string, any>) =>
+  `${category}|${getFileName(row) ?? describeRow(row)}`;
+
+// Numbers repeated fingerprints in order ("...#2"), so rows that look alike stay apart
+const numberFingerprints = () => {
+  const seen = new Map<string, number>();
+  return (category: ExceptionCategory, row: Record<string, any>) => {
+    const base = fingerprint(category, row);
+    const occurrence = (seen.get(base) || 0) + 1;
+    seen.set(base, occurrence);
+    return `${base}#${occurrence}`;
+  };
+};
+
+/**
+ * Exceptions for a joined dataset. Items that match one from the previous run keep
+ * its status, comments and resolution.
+ */
+export const buildExceptions = (joinedData: any[] | undefined, previous: ReconcileException[] = []): ReconcileException[] => {
+  const previousKey = numberFingerprints();
+  const earlier = new Map(previous.map(e => [previousKey(e.category, e.row), e]));
+  const currentKey = numberFingerprints();
+  const exceptions: ReconcileException[] = [];
+  (joinedData || []).forEach(row => {
+    if (!row || typeof row !== 'object') return;
+    const category = categorizeRow(row);
+    if (!category) return;
+    const differences = findValue(row, /^differences?$/i);
+    const carried = earlier.get(currentKey(category, row));
+    exceptions.push({
+      id: carried?.id ?? uuidv4(),
+      category,
+      status: carried?.status ?? 'open',
+      fileName: getFileName(row),
+      detail: category === 'value_difference' && differences ? String(differences) : describeRow(row),
+      row,
+      comments: carried?.comments ?? [],
+      resolution: carried?.resolution ?? '',
+      updatedAt: carried?.updatedAt
+    });
+  });
+  return exceptions;
+};
+
+export const countByStatus = (exceptions: ReconcileException[]): Record<ExceptionStatus, number> => {
+  const counts = { open: 0, explained: 0, proposed_adjustment: 0, adjusted: 0 };
+  exceptions.forEach(e => { counts[e.status] += 1; });
+  return counts;
+};
+
+export const formatComments = (exception: ReconcileException): string =>
+  exception.comments.map(c => `${c.author || 'Unknown reviewer'} (${new Date(c.at).toLocaleString()}): ${c.text}`).join('\n');
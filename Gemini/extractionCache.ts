@@ -0,0 +1,91 @@
+import { ExtractionOutput, FieldDefinition, ProviderSettings } from './types';
+import { buildExtractionPrompt } from './prompts';
+import { openDatabase, promisify, transactionDone } from './idb';
+import { describeFieldForExtraction } from './incrementalExtraction';
+
+/**
+ * Content-addressed cache of extraction results, kept in IndexedDB. The key is a hash
+ * of the file bytes plus a hash of everything that shapes the answer (fields, prompt,
+ * provider and model), so the same file extracted the same way is never paid for twice,
+ * whatever its name, and any change to the fields or model misses the cache.
+ */
+
+const DB_NAME = 'tickandtie-cache';
+const DB_VERSION = 1;
+const EXTRACTIONS_STORE = 'extractions';
+
+interface CacheEntry {
+  key: string;
+  fileName: string; // For information only; the key does not depend on it
+  createdAt: string; // ISO 8601
+  output: ExtractionOutput;
+}
+
+const openDb = (): Promise<IDBDatabase> => openDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(EXTRACTIONS_STORE)) db.createObjectStore(EXTRACTIONS_STORE, { keyPath: 'key' });
+});
+
+const sha256 = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Only what reaches the model counts; ids and colours do not change the answer
+const describeRequest = (fields: FieldDefinition[], settings: ProviderSettings): string => JSON.stringify({
+  provider: settings.kind,
+  model: settings.model,
+  baseUrl: settings.baseUrl || null,
+  retryInvalidFields: settings.retryInvalidFields !== false,
+  fields: fields.map(describeFieldForExtraction),
+  prompt: buildExtractionPrompt(fields)
+});
+
+export const getCacheKey = async (file: File, fields: FieldDefinition[], settings: ProviderSettings): Promise<string> => {
+  const fileHash = await sha256(await file.arrayBuffer());
+  const requestHash = await sha256(new TextEncoder().encode(describeRequest(fields, settings)));
+  return `${fileHash}:${requestHash}`;
+};
+
+export const getCachedExtraction = async (key: string): Promise<ExtractionOutput | null> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXTRACTIONS_STORE, 'readonly');
+    const entry = await promisify<CacheEntry | undefined>(tx.objectStore(EXTRACTIONS_STORE).get(key));
+    return entry ? entry.output : null;
+  } finally {
+    db.close();
+  }
+};
+
+export const putCachedExtraction = async (key: string, fileName: string, output: ExtractionOutput): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXTRACTIONS_STORE, 'readwrite');
+    const entry: CacheEntry = { key, fileName, createdAt: new Date().toISOString(), output };
+    tx.objectStore(EXTRACTIONS_STORE).put(entry);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
+
+export const countCachedExtractions = async (): Promise<number> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXTRACTIONS_STORE, 'readonly');
+    return await promisify(tx.objectStore(EXTRACTIONS_STORE).count());
+  } finally {
+    db.close();
+  }
+};
+
+export const clearExtractionCache = async (): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXTRACTIONS_STORE, 'readwrite');
+    tx.objectStore(EXTRACTIONS_STORE).clear();
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,90 @@
+import { ExtractionErrorKind } from './types';
+
+/**
+ * Extraction failure categories. Providers throw ExtractionError where they know the
+ * cause; anything else is classified from its HTTP status and message, so the table
+ * can say what went wrong and what to do about it.
+ */
+
+export const EXTRACTION_ERRORS: Record<ExtractionErrorKind, { label: string; hint: string }> = {
+  api_key: {
+    label: 'API key',
+    hint: 'The API key is missing or was rejected. Enter a valid key in the provider settings.'
+  },
+  rate_limit: {
+    label: 'Rate limit',
+    hint: 'The provider quota or rate limit was hit. Wait a minute, lower the documents at once, or check your billing quota.'
+  },
+  file_too_large: {
+    label: 'File too large',
+    hint: 'Split the document or reduce its resolution, then upload it again.'
+  },
+  unsupported_type: {
+    label: 'Unsupported file',
+    hint: 'Only PDF, PNG, JPG and WEBP files can be extracted. Convert the file and upload it again.'
+  },
+  bad_response: {
+    label: 'Unreadable response',
+    hint: 'The model did not return valid JSON. Run the document again, or try a more capable model.'
+  },
+  network: {
+    label: 'Network',
+    hint: 'The provider could not be reached or had a server error. Check your connection or the base URL and run again.'
+  },
+  safety_blocked: {
+    label: 'Blocked',
+    hint: "The provider's safety filters blocked the request. Review the document content; it cannot be extracted with this provider."
+  },
+  unknown: {
+    label: 'Error',
+    hint: 'Run the document again. If it keeps failing, check the browser console for details.'
+  }
+};
+
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const SUPPORTED_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+
+export class ExtractionError extends Error {
+  kind: ExtractionErrorKind;
+
+  constructor(kind: ExtractionErrorKind, message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.kind = kind;
+  }
+}
+
+/**
+ * Rejects files the providers cannot take before any request is made.
+ */
+export const checkExtractable = (file: File) => {
+  if (!SUPPORTED_TYPES.includes(file.type)) {
+    throw new ExtractionError('unsupported_type', `${file.type || 'Unknown file type'} is not supported`);
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new ExtractionError('file_too_large', `${(file.size / (1024 * 1024)).toFixed(1)} MB is over the ${MAX_FILE_BYTES / (1024 * 1024)} MB limit`);
+  }
+};
+
+// Checked in order; the first match wins
+const MESSAGE_RULES: [ExtractionErrorKind, RegExp][] = [
+  ['api_key', /api.?key|unauthori[sz]ed|unauthenticated|permission.?denied|\b40[13]\b/i],
+  ['rate_limit', /quota|rate.?limit|resource.?exhausted|too many requests|\b429\b/i],
+  ['file_too_large', /too large|payload|request entity|exceeds the maximum|\b413\b/i],
+  ['unsupported_type', /unsupported|mime.?type|\b415\b/i],
+  ['safety_blocked', /safety|blocked|prohibited|recitation|content.?filter/i],
+  ['bad_response', /json|unexpected token|no response|unexpected end/i],
+  ['network', /network|failed to fetch|timed? ?out|unavailable|overloaded|econn|\b50[0-4]\b/i]
+];
+
+export const classifyError = (error: any): { kind: ExtractionErrorKind; message: string } => {
+  const message = String(error?.message ?? error ?? 'Unknown error');
+  if (error instanceof ExtractionError) return { kind: error.kind, message };
+  if (error instanceof SyntaxError) return { kind: 'bad_response', message };
+
+  const status = error?.status ?? error?.response?.status;
+  const text = typeof status === 'number' ? `${status} ${message}` : message;
+  const rule = MESSAGE_RULES.find(([, pattern]) => pattern.test(text));
+  return { kind: rule ? rule[0] : 'unknown', message };
+};
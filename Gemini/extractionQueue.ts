@@ -0,0 +1,128 @@
+import { QueueSettings } from './types';
+import { delay } from './utils';
+import { ExtractionError } from './extractionErrors';
+
+/**
+ * Batch job queue: runs a fixed number of jobs at once and retries rate-limit and
+ * server errors with exponential backoff, so one 429 does not fail a document.
+ * A QueueControl pauses the queue between jobs or stops it, aborting jobs in flight.
+ */
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 3,
+  maxRetries: 3,
+  baseDelayMs: 1000
+};
+
+const MAX_DELAY_MS = 30000;
+
+const RETRYABLE_STATUS = /\b(408|429|500|502|503|504)\b/;
+const RETRYABLE_MESSAGE = /rate.?limit|too many requests|overloaded|unavailable|resource.?exhausted|timed? ?out|network|failed to fetch/i;
+
+/**
+ * True for errors worth another attempt: rate limits, server errors and dropped
+ * connections. Bad requests and missing keys fail straight away.
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (error instanceof ExtractionError) return error.kind === 'rate_limit' || error.kind === 'network';
+  const status = error?.status ?? error?.code ?? error?.response?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUS.test(String(status));
+  const message = String(error?.message ?? error ?? '');
+  return RETRYABLE_STATUS.test(message) || RETRYABLE_MESSAGE.test(message);
+};
+
+/**
+ * Delay before the given retry (1-based): doubles each time, capped, with jitter so
+ * parallel jobs that failed together do not retry together.
+ */
+export const getBackoffDelay = (retry: number, baseDelayMs: number): number => {
+  const ceiling = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+export interface QueueControl {
+  signal: AbortSignal; // Aborted on stop; pass it down to every request
+  readonly paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  waitWhilePaused: () => Promise<void>;
+}
+
+/**
+ * Pausing lets jobs in flight finish but starts no new ones until resumed.
+ * Stopping aborts the signal and releases anything waiting on a pause.
+ */
+export const createQueueControl = (): QueueControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let waiting: (() => void)[] = [];
+  const release = () => {
+    waiting.forEach(resolve => resolve());
+    waiting = [];
+  };
+
+  return {
+    signal: controller.signal,
+    get paused() { return paused; },
+    pause: () => { paused = true; },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    stop: () => {
+      controller.abort();
+      paused = false;
+      release();
+    },
+    waitWhilePaused: () => paused && !controller.signal.aborted
+      ? new Promise<void>(resolve => waiting.push(resolve))
+      : Promise.resolve()
+  };
+};
+
+/**
+ * Runs a task, retrying retryable failures up to settings.maxRetries times.
+ * onAttempt is called before every attempt with its 1-based number. An aborted
+ * signal ends the backoff wait and is never retried.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  settings: QueueSettings,
+  onAttempt?: (attempt: number) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      return await task();
+    } catch (error) {
+      const retriesLeft = attempt <= settings.maxRetries;
+      if (!retriesLeft || !isRetryableError(error) || signal?.aborted) throw error;
+      await delay(getBackoffDelay(attempt, settings.baseDelayMs), signal);
+    }
+  }
+};
+
+/**
+ * Runs worker over every item with at most `concurrency` running at once. Items not
+ * yet started when the control is stopped are skipped.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  concurrency: number,
+  control?: QueueControl
+): Promise<void> => {
+  let next = 0;
+  const runWorker = async () => {
+    for (;;) {
+      await control?.waitWhilePaused();
+      if (control?.signal.aborted || next >= items.length) return;
+      const item = items[next++];
+      await worker(item);
+    }
+  };
+  const size = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: size }, runWorker));
+};
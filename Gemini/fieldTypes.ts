@@ -0,0 +1,417 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ExtractedValue, FieldDefinition, FieldOptions, FieldType, TableColumn, TableRow } from './types';
+
+// The parts of a field or table column that define how its values are read
+type FieldTypeSpec = { name: string; type: FieldType; options?: FieldOptions };
+
+/**
+ * Field type metadata, parsing and normalization. Extracted values are normalized
+ * into canonical form (ISO dates, numbers, booleans) so "1.234,56" and "$1,234.56"
+ * compare as the same amount at Tie time, while the printed text is kept as raw_text.
+ */
+
+export const FIELD_TYPE_OPTIONS: { type: FieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'currency', label: 'Currency' },
+  { type: 'date', label: 'Date' },
+  { type: 'percentage', label: 'Percentage' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'enum', label: 'List of values' },
+  { type: 'table', label: 'Table (line items)' }
+];
+
+/**
+ * Starting columns for a new table field: a typical invoice line.
+ */
+export const createDefaultColumns = (): TableColumn[] => [
+  { id: uuidv4(), name: 'Description', key: 'description', type: 'text' },
+  { id: uuidv4(), name: 'Quantity', key: 'quantity', type: 'number' },
+  { id: uuidv4(), name: 'Unit Price', key: 'unit_price', type: 'currency' },
+  { id: uuidv4(), name: 'Amount', key: 'amount', type: 'currency' }
+];
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'DD MMM YYYY', 'MMM DD, YYYY'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export const isNumericType = (type: FieldType): boolean =>
+  type === 'number' || type === 'currency' || type === 'percentage';
+
+/**
+ * Guesses a field type from its name, used when a field is created from free text.
+ */
+export const inferFieldType = (name: string): FieldType => {
+  const lower = name.toLowerCase();
+  if (/line items|lines|transactions|entries/.test(lower)) return 'table';
+  if (/date|period end|due on/.test(lower)) return 'date';
+  if (/rate|percent|%/.test(lower)) return 'percentage';
+  if (/amount|total|price|tax|balance|cost|fee|subtotal/.test(lower)) return 'currency';
+  if (/qty|quantity|count/.test(lower)) return 'number';
+  return 'text';
+};
+
+/**
+ * Describes the expected format of a field for prompts and schema descriptions.
+ */
+export const describeFieldType = (field: FieldDefinition | FieldTypeSpec): string => {
+  const options = field.options || {};
+  switch (field.type) {
+    case 'number':
+      return 'number';
+    case 'currency':
+      return 'currency amount';
+    case 'percentage':
+      return 'percentage';
+    case 'date':
+      return options.dateFormat ? `date, printed as ${options.dateFormat}` : 'date';
+    case 'boolean':
+      return 'yes/no';
+    case 'enum':
+      return options.allowedValues && options.allowedValues.length > 0
+        ? `one of: ${options.allowedValues.join(', ')}`
+        : 'text';
+    case 'table': {
+      const columns = 'columns' in field ? field.columns || [] : [];
+      return `table, one entry per row with columns: ${columns.map(c => `${c.name} (${describeFieldType(c)})`).join(', ')}`;
+    }
+    default:
+      return 'text';
+  }
+};
+
+/**
+ * JSON type of the canonical value the model is asked to return for a field.
+ */
+export const getValueSchemaType = (type: FieldType): 'string' | 'number' | 'boolean' => {
+  if (isNumericType(type)) return 'number';
+  if (type === 'boolean') return 'boolean';
+  return 'string';
+};
+
+/**
+ * Schema description of the canonical value the model is asked to return.
+ */
+export const describeCanonicalValue = (field: FieldTypeSpec): string => {
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      return `The numeric value of ${field.name}, without currency symbols or thousands separators (negative for credits)`;
+    case 'percentage':
+      return `The value of ${field.name} as a fraction (15% = 0.15)`;
+    case 'date':
+      return `The value of ${field.name} as an ISO 8601 date (YYYY-MM-DD)`;
+    case 'boolean':
+      return `Whether ${field.name} is yes/checked (true) or no/unchecked (false)`;
+    case 'enum':
+      return `The value of ${field.name}, exactly one of the allowed values`;
+    default:
+      return `The extracted value for ${field.name}`;
+  }
+};
+
+/**
+ * A single separator followed by exactly three digits ("1.250", "0,125") can be a decimal
+ * or a thousands separator; only a known decimal separator tells them apart.
+ */
+export const isAmbiguousNumber = (raw: string): boolean => /^\d{1,3}[.,]\d{3}$/.test(raw.replace(/[^\d.,]/g, ''));
+
+/**
+ * Reads a printed number. Without a decimal separator it is detected, and ambiguous text
+ * (see isAmbiguousNumber) is not read at all rather than guessed.
+ */
+export const parseNumber = (raw: string, decimalSeparator?: '.' | ','): number | null => {
+  let text = raw.trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text.replace(/[^\d\-]/g, '')) || /-$/.test(text) || /\bCR\b/i.test(text);
+  text = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  let normalized: string;
+  if (decimalSeparator) {
+    const thousands = decimalSeparator === '.' ? ',' : '.';
+    normalized = text.split(thousands).join('').replace(decimalSeparator, '.');
+  } else {
+    if (isAmbiguousNumber(text)) return null;
+    // The right-most separator followed by 1-2 digits is the decimal separator
+    const lastSeparator = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+    if (lastSeparator !== -1 && text.length - lastSeparator - 1 <= 2) {
+      normalized = `${text.substring(0, lastSeparator).replace(/[.,]/g, '')}.${text.substring(lastSeparator + 1)}`;
+    } else {
+      normalized = text.replace(/[.,]/g, '');
+    }
+  }
+
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(normalized)) return null;
+  const value = parseFloat(normalized);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  // Reject overflow such as 31/02
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().substring(0, 10);
+};
+
+// Numeric dates whose first two parts could both be the month ("03/04/2024")
+const isAmbiguousDate = (raw: string): boolean => {
+  const numeric = raw.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  return !!numeric && +numeric[1] <= 12 && +numeric[2] <= 12 && +numeric[1] !== +numeric[2];
+};
+
+const monthFromName = (name: string): number => MONTHS.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+
+/**
+ * Parses a date with an explicit format (DD, MM, MMM, YYYY, YY tokens) or, without one,
+ * ISO dates, month-name dates and numeric dates (day first only when unambiguous).
+ * Returns YYYY-MM-DD or null.
+ */
+export const parseDate = (raw: string, dateFormat?: string): string | null => {
+  const text = raw.trim();
+  if (!text) return null;
+
+  if (dateFormat) {
+    const tokens: string[] = [];
+    const pattern = dateFormat
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/YYYY|YY|MMM|MM|DD/g, token => {
+        tokens.push(token);
+        if (token === 'MMM') return '([A-Za-z]+)\\.?';
+        if (token === 'YYYY') return '(\\d{4})';
+        return '(\\d{1,2})';
+      })
+      .replace(/\s+/g, '\\s*');
+    const match = text.match(new RegExp(`^${pattern}$`, 'i'));
+    if (!match) return null;
+
+    let year = 0, month = 0, day = 0;
+    tokens.forEach((token, i) => {
+      const part = match[i + 1];
+      if (token === 'YYYY' || token === 'YY') year = +part;
+      else if (token === 'MMM') month = monthFromName(part);
+      else if (token === 'MM') month = +part;
+      else day = +part;
+    });
+    return toIsoDate(year, month, day);
+  }
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (numeric) {
+    const [a, b, y] = [+numeric[1], +numeric[2], +numeric[3]];
+    return a > 12 ? toIsoDate(y, b, a) : toIsoDate(y, a, b);
+  }
+
+  const dayMonthName = text.match(/^(\d{1,2})[\s-]+([A-Za-z]+)\.?,?[\s-]+(\d{2,4})$/);
+  if (dayMonthName) return toIsoDate(+dayMonthName[3], monthFromName(dayMonthName[2]), +dayMonthName[1]);
+
+  const monthNameDay = text.match(/^([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{2,4})$/);
+  if (monthNameDay) return toIsoDate(+monthNameDay[3], monthFromName(monthNameDay[1]), +monthNameDay[2]);
+
+  return null;
+};
+
+const parseBoolean = (raw: string): boolean | null => {
+  const text = raw.trim().toLowerCase();
+  if (['yes', 'y', 'true', 'x', '✓', '✔', 'checked', 'on'].includes(text)) return true;
+  if (['no', 'n', 'false', 'unchecked', 'off'].includes(text)) return false;
+  return null;
+};
+
+/**
+ * Converts printed text into the canonical value for the field type.
+ */
+export const normalizeFieldValue = (
+  raw: string,
+  field: FieldTypeSpec
+): { value: string | number | boolean | null; error: string | null } => {
+  const options = field.options || {};
+
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+    case 'percentage': {
+      if (!options.decimalSeparator && isAmbiguousNumber(raw)) {
+        return { value: null, error: `"${raw}" could use "." or "," as the decimal separator; set it on the field` };
+      }
+      const value = parseNumber(raw, options.decimalSeparator);
+      if (value === null) {
+        const kind = field.type === 'currency' ? 'amount' : field.type;
+        return { value: null, error: `"${raw}" is not a valid ${kind}` };
+      }
+      // Canonical percentages are fractions, as in Excel (15% -> 0.15); text without "%" already is one
+      return { value: field.type === 'percentage' && raw.includes('%') ? value / 100 : value, error: null };
+    }
+    case 'date': {
+      if (!options.dateFormat && isAmbiguousDate(raw)) {
+        return { value: null, error: `"${raw}" could be day or month first; set the field's date format` };
+      }
+      const value = parseDate(raw, options.dateFormat);
+      return value === null
+        ? { value: null, error: `"${raw}" is not a valid date${options.dateFormat ? ` (expected ${options.dateFormat})` : ''}` }
+        : { value, error: null };
+    }
+    case 'boolean': {
+      const value = parseBoolean(raw);
+      return value === null ? { value: null, error: `"${raw}" is not yes/no` } : { value, error: null };
+    }
+    case 'enum': {
+      const allowed = options.allowedValues || [];
+      if (allowed.length === 0) return { value: raw.trim(), error: null };
+      const value = allowed.find(v => v.trim().toLowerCase() === raw.trim().toLowerCase());
+      return value === undefined ? { value: null, error: `"${raw}" is not one of ${allowed.join(', ')}` } : { value, error: null };
+    }
+    default:
+      return { value: raw.trim(), error: null };
+  }
+};
+
+/**
+ * Checks a value the model already returned in canonical form (a number, an already-scaled
+ * percentage fraction, an ISO date), without re-reading it as printed text.
+ */
+const checkCanonicalValue = (
+  value: any,
+  field: FieldTypeSpec
+): { value: string | number | boolean | null; error: string | null } => {
+  if (value === null || value === undefined || value === '') return { value: null, error: null };
+  const invalid = (expected: string) => ({ value: null, error: `"${value}" is not ${expected}` });
+
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+    case 'percentage':
+      return typeof value === 'number' && Number.isFinite(value) ? { value, error: null } : invalid('a number');
+    case 'date': {
+      const iso = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDate(value, 'YYYY-MM-DD') : null;
+      return iso ? { value: iso, error: null } : invalid('an ISO date (YYYY-MM-DD)');
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? { value, error: null } : invalid('true or false');
+    case 'enum': {
+      const allowed = field.options?.allowedValues || [];
+      if (allowed.length === 0) return { value: String(value).trim(), error: null };
+      const match = allowed.find(v => v.trim().toLowerCase() === String(value).trim().toLowerCase());
+      return match === undefined ? invalid(`one of ${allowed.join(', ')}`) : { value: match, error: null };
+    }
+    default:
+      return { value: String(value).trim(), error: null };
+  }
+};
+
+const sameValue = (a: string | number | boolean, b: string | number | boolean): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+  if (typeof a === 'string' && typeof b === 'string') return a.trim().toLowerCase() === b.trim().toLowerCase();
+  return a === b;
+};
+
+/**
+ * Normalizes a single extracted value, keeping the printed text as raw_text. Without
+ * printed text the model's canonical value is only type-checked; when both are present
+ * and read differently, the value is flagged for review.
+ */
+export const normalizeExtractedValue = (extracted: ExtractedValue | undefined, field: FieldTypeSpec): ExtractedValue => {
+  if (!extracted) return { value: null, raw_text: null, error: null, box_2d: null };
+
+  const modelValue = extracted.value;
+  const raw = extracted.raw_text;
+  if (raw === null || raw === undefined || raw.trim() === '') {
+    const checked = checkCanonicalValue(modelValue, field);
+    return { ...extracted, value: checked.value, raw_text: checked.error ? String(modelValue) : null, error: checked.error };
+  }
+
+  const normalized = normalizeFieldValue(raw, field);
+  if (normalized.error === null) {
+    // Free text is often tidied by the model, so only typed values are cross-checked
+    const model = field.type === 'text' ? null : checkCanonicalValue(modelValue, field).value;
+    if (model !== null && normalized.value !== null && !sameValue(model, normalized.value)) {
+      return {
+        ...extracted,
+        value: normalized.value,
+        raw_text: raw,
+        error: `Printed "${raw}" reads as ${normalized.value}, but the model returned ${model}`
+      };
+    }
+    return { ...extracted, value: normalized.value, raw_text: raw, error: null };
+  }
+
+  // Fall back to the model's canonical value, then to the model's text value
+  const canonical = checkCanonicalValue(modelValue, field);
+  if (canonical.value !== null && canonical.error === null) {
+    return { ...extracted, value: canonical.value, raw_text: raw, error: null };
+  }
+  if (typeof modelValue === 'string' && modelValue !== raw) {
+    const retry = normalizeFieldValue(modelValue, field);
+    if (retry.error === null) return { ...extracted, value: retry.value, raw_text: raw, error: null };
+  }
+
+  return { ...extracted, value: null, raw_text: raw, error: normalized.error };
+};
+
+/**
+ * Normalizes every cell of a table field against its column types. Invalid cells keep
+ * their own error; the field error summarizes how many there are.
+ */
+const normalizeTableValue = (extracted: ExtractedValue | undefined, field: FieldDefinition): ExtractedValue => {
+  const columns = field.columns || [];
+  const rows: TableRow[] = (Array.isArray(extracted?.rows) ? extracted!.rows : []).map(row => {
+    const cells: Record<string, ExtractedValue> = {};
+    columns.forEach(column => {
+      cells[column.key] = normalizeExtractedValue(row?.cells?.[column.key], column);
+    });
+    return { cells, box_2d: row?.box_2d ?? null, page: row?.page ?? null, confidence: row?.confidence ?? null };
+  });
+
+  const invalidCells = rows.reduce((count, row) =>
+    count + Object.values(row.cells).filter(cell => cell.error).length, 0);
+
+  return {
+    value: null,
+    raw_text: null,
+    error: invalidCells > 0 ? `${invalidCells} invalid cell${invalidCells === 1 ? '' : 's'}` : null,
+    box_2d: null,
+    page: rows[0]?.page ?? null,
+    rows
+  };
+};
+
+export const normalizeExtractedData = (
+  data: Record<string, ExtractedValue>,
+  fields: FieldDefinition[]
+): Record<string, ExtractedValue> => {
+  const result: Record<string, ExtractedValue> = { ...data };
+  fields.forEach(field => {
+    result[field.key] = field.type === 'table'
+      ? normalizeTableValue(data[field.key], field)
+      : normalizeExtractedValue(data[field.key], field);
+  });
+  return result;
+};
+
+/**
+ * Display text for an extracted value: canonical value when valid, printed text otherwise.
+ */
+export const formatExtractedValue = (extracted: ExtractedValue | undefined, field: FieldTypeSpec): string => {
+  if (!extracted) return '';
+  if (field.type === 'table') {
+    const count = extracted.rows?.length || 0;
+    return count > 0 ? `${count} row${count === 1 ? '' : 's'}` : '';
+  }
+  if (extracted.error) return extracted.raw_text || '';
+  const value = extracted.value;
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field.type === 'percentage' && typeof value === 'number') {
+    return `${parseFloat((value * 100).toFixed(6))}%`;
+  }
+  if (field.type === 'currency' && typeof value === 'number') {
+    return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  return String(value);
+};
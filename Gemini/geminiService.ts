@@ -1,33 +1,122 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DocumentResult, FieldDefinition, ExtractedValue, ReconcileResult } from './types';
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, ColumnMapping, DocumentResult, FieldDefinition, ExtractionOutput, ProviderSettings, ReconcileResult, TableColumn, TokenCounts } from './types';
 import { fileToBase64 } from './utils';
+import { buildExtractionPrompt, buildJoinInstructions, describeFieldInstructions, getExtractedRows } from './prompts';
+import { describeCanonicalValue, getValueSchemaType } from './fieldTypes';
+import { ExtractionError } from './extractionErrors';
+import { describeReconcileOutput, readReconcileOutput } from './reconcileOutput';
+
+const getClient = (settings: ProviderSettings): GoogleGenAI => {
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new ExtractionError('api_key', "API Key is missing");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const BOX_SCHEMA = {
+  type: Type.ARRAY,
+  items: { type: Type.INTEGER },
+  description: "The bounding box of the value in [ymin, xmin, ymax, xmax] format (normalized 0-1000)."
+};
+
+const PAGE_SCHEMA = {
+  type: Type.INTEGER,
+  description: "The 1-based page number the bounding box refers to."
+};
+
+// Finish reasons meaning the answer was withheld rather than cut short
+const BLOCKED_FINISH_REASONS: string[] = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Thinking tokens are billed as output
+const readTokenCounts = (response: GenerateContentResponse): TokenCounts | undefined => {
+  const usage = response.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount || 0,
+    responseTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+  };
+};
+
+const CONFIDENCE_SCHEMA = {
+  type: Type.NUMBER,
+  nullable: true,
+  description: "How confident you are that this is the right value, read correctly, from 0 to 1."
+};
+
+const buildValueSchema = (spec: FieldDefinition | TableColumn): Record<string, any> => {
+  const valueType = getValueSchemaType(spec.type);
+  const value: Record<string, any> = {
+    type: valueType === 'number' ? Type.NUMBER : valueType === 'boolean' ? Type.BOOLEAN : Type.STRING,
+    nullable: true,
+    description: describeCanonicalValue(spec)
+  };
+  if (spec.type === 'enum' && spec.options?.allowedValues?.length) {
+    value.format = 'enum';
+    value.enum = spec.options.allowedValues;
+  }
+  return value;
+};
 
 export const processDocument = async (
   doc: DocumentResult,
-  fields: FieldDefinition[]
-): Promise<Record<string, ExtractedValue>> => {
+  fields: FieldDefinition[],
+  settings: ProviderSettings,
+  signal?: AbortSignal
+): Promise<ExtractionOutput> => {
   
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = getClient(settings);
   
   // 1. Construct Dynamic Schema
   const properties: Record<string, any> = {};
   
   fields.forEach(field => {
+    const description = [`Extraction result for ${field.name}.`, describeFieldInstructions(field)].filter(Boolean).join(' ');
+
+    if (field.type === 'table') {
+      const cellProperties: Record<string, any> = {};
+      (field.columns || []).forEach(column => {
+        cellProperties[column.key] = {
+          type: Type.OBJECT,
+          properties: {
+            value: buildValueSchema(column),
+            raw_text: { type: Type.STRING, nullable: true, description: `The text of ${column.name} exactly as printed` }
+          }
+        };
+      });
+
+      properties[field.key] = {
+        type: Type.OBJECT,
+        properties: {
+          rows: {
+            type: Type.ARRAY,
+            description: `Every row of ${field.name}, in document order. Do not include header, subtotal or total rows.`,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                cells: { type: Type.OBJECT, properties: cellProperties },
+                box_2d: { ...BOX_SCHEMA, description: "The bounding box of the whole row in [ymin, xmin, ymax, xmax] format (normalized 0-1000)." },
+                page: PAGE_SCHEMA,
+                confidence: CONFIDENCE_SCHEMA
+              }
+            }
+          }
+        },
+        description
+      };
+      return;
+    }
+
     properties[field.key] = {
       type: Type.OBJECT,
       properties: {
-        value: { type: Type.STRING, description: `The extracted value for ${field.name}` },
-        box_2d: { 
-          type: Type.ARRAY, 
-          items: { type: Type.INTEGER },
-          description: "The bounding box of the value in [ymin, xmin, ymax, xmax] format (normalized 0-1000)."
-        }
+        value: buildValueSchema(field),
+        raw_text: { type: Type.STRING, nullable: true, description: `The text of ${field.name} exactly as printed on the document` },
+        box_2d: BOX_SCHEMA,
+        page: PAGE_SCHEMA,
+        confidence: CONFIDENCE_SCHEMA
       },
-      description: `Extraction result for ${field.name}`
+      description
     };
   });
 
@@ -35,18 +124,11 @@ export const processDocument = async (
   const base64DataUrl = await fileToBase64(doc.file);
   const base64Data = base64DataUrl.split(',')[1]; // Remove "data:image/xyz;base64," prefix
 
-  const prompt = `
-    You are an expert internal auditor. 
-    Analyze the provided document.
-    Extract the following fields: ${fields.map(f => f.name).join(', ')}.
-    For each field, find the text value and the 2D bounding box coordinates.
-    If a field is not found, return null for value.
-    The bounding box should be normalized to a 0-1000 scale in [ymin, xmin, ymax, xmax] order.
-  `;
+  const prompt = buildExtractionPrompt(fields);
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: settings.model,
       contents: {
         parts: [
           { inlineData: { mimeType: doc.file.type, data: base64Data } },
@@ -58,15 +140,25 @@ export const processDocument = async (
         responseSchema: {
           type: Type.OBJECT,
           properties: properties,
-        }
+        },
+        abortSignal: signal
       }
     });
 
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+      throw new ExtractionError('safety_blocked', `Gemini blocked the request (${blockReason || finishReason})`);
+    }
+
     const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
+    if (!text) throw new ExtractionError('bad_response', "No response from Gemini");
 
-    const json = JSON.parse(text);
-    return json;
+    try {
+      return { data: JSON.parse(text), tokens: readTokenCounts(response) };
+    } catch {
+      throw new ExtractionError('bad_response', "Gemini returned invalid JSON");
+    }
 
   } catch (error) {
     console.error("Gemini Error:", error);
@@ -74,28 +166,33 @@ export const processDocument = async (
   }
 };
 
+// The JSON starts on a line of its own, possibly after other printed output
+const findPrintedJson = (output: string): string => {
+  const starts = [...output.matchAll(/^\s*\{/gm)].map(match => match.index!);
+  for (const start of starts) {
+    try {
+      JSON.parse(output.slice(start));
+      return output.slice(start);
+    } catch {
+      // Not this one; a later line may start the JSON
+    }
+  }
+  // Nothing parses: pass on the first candidate so the cut-off is reported
+  return output.slice(starts[0] ?? output.indexOf('{'));
+};
+
 export const reconcileData = async (
   documents: DocumentResult[],
   fields: FieldDefinition[],
   referenceData: any[],
-  userInstructions: string
+  userInstructions: string,
+  settings: ProviderSettings,
+  mapping?: ColumnMapping[]
 ): Promise<ReconcileResult> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = getClient(settings);
 
   // Prepare data for the context
-  const extractedData = documents
-    .filter(d => d.status === 'success')
-    .map(d => {
-      const row: any = { fileName: d.fileName };
-      fields.forEach(f => {
-        row[f.name] = d.data[f.key]?.value || null;
-      });
-      return row;
-    });
+  const extractedData = getExtractedRows(documents, fields);
 
   const prompt = `
     You are an expert data analyst performing a 'Tick & Tie' audit procedure.
@@ -120,17 +217,16 @@ export const reconcileData = async (
     1. Print the text report results in a clear, readable format.
     2. Do NOT include the python code or code blocks in the text response/report. Only show the analysis results and summary tables.
     3. If you are generating a summary table for the report, ALWAYS print it as a Markdown Table.
-    4. EXPORT REQUIREMENT: Create a "Full Outer Join" DataFrame of the Extracted Data and Reference Data (matching on the most logical columns like Invoice Number or Amount). 
-       - Ensure the 'fileName' column from the Extracted Data is preserved in this joined dataframe (call it 'fileName' or 'Source_File').
-       - Convert this joined DataFrame to a list of dictionaries (JSON records).
-       - Print this JSON string wrapped specifically in <JSON_RESULT> and </JSON_RESULT> tags. 
-       - This is crucial for the Excel export feature.
+    4. EXPORT REQUIREMENT: Create a "Full Outer Join" DataFrame of the Extracted Data and Reference Data (${buildJoinInstructions(fields, mapping)}).
+       - Ensure the 'fileName' column from the Extracted Data is preserved in this joined dataframe.
+       - As the LAST step of your code, print(json.dumps(...)) exactly once, with${describeReconcileOutput()}
+       - Do not repeat this JSON in the text response. It is read from the code output for the Excel export.
     5. Provide a summary text explanation of what was done and what was found.
   `;
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: settings.model,
       contents: { text: prompt },
       config: {
         tools: [{ codeExecution: {} }]
@@ -147,21 +243,33 @@ export const reconcileData = async (
     
     const code = codeBlocks.join('\n\n# ---------------------------------------------------------\n# Next Code Block\n# ---------------------------------------------------------\n\n');
 
-    // Extract JSON data from the text response
-    let joinedData = undefined;
-    const jsonMatch = report.match(/<JSON_RESULT>([\s\S]*?)<\/JSON_RESULT>/);
-    if (jsonMatch && jsonMatch[1]) {
-      try {
-        joinedData = JSON.parse(jsonMatch[1]);
-      } catch (e) {
-        console.error("Failed to parse joined data JSON from model response", e);
-      }
+    // The joined dataset is the JSON printed by the last code block that printed one
+    const outputs = parts
+      .map((part: any) => part.codeExecutionResult?.output as string | undefined)
+      .filter((output): output is string => !!output && output.includes('{'));
+    const lastOutput = outputs[outputs.length - 1];
+    const { joinedData, summary, warnings } = readReconcileOutput(
+      lastOutput && findPrintedJson(lastOutput),
+      { sourceRows: extractedData.length, referenceRows: referenceData.length },
+      response.candidates?.[0]?.finishReason === 'MAX_TOKENS'
+    );
+
+    // A response schema cannot be combined with code execution, so the format is not enforced
+    if (warnings.length > 0) {
+      warnings.push('Gemini cannot enforce the output structure while running code; the joined dataset is read from its printed output.');
     }
 
-    return { report, code, joinedData };
+    return { report, code, joinedData, summary, warnings, tokens: readTokenCounts(response) };
 
   } catch (error) {
     console.error("Reconciliation Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): AIProvider => ({
+  kind: 'gemini',
+  processDocument: (doc, fields, signal) => processDocument(doc, fields, settings, signal),
+  reconcileData: (documents, fields, referenceData, userInstructions, mapping) =>
+    reconcileData(documents, fields, referenceData, userInstructions, settings, mapping)
+});
@@ -0,0 +1,30 @@
+/**
+ * Promise wrappers for the IndexedDB request API, shared by the session store and
+ * the extraction cache.
+ */
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (!window.indexedDB) {
+    reject(new Error("IndexedDB is not available in this browser"));
+    return;
+  }
+  const request = window.indexedDB.open(name, version);
+  request.onupgradeneeded = () => upgrade(request.result);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
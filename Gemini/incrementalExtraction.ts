@@ -0,0 +1,54 @@
+import { DocumentResult, ExtractedValue, FieldDefinition } from './types';
+import { reapplyOverrides } from './overrides';
+import { hashText } from './utils';
+
+/**
+ * Incremental extraction. Each document records a signature of every field it was
+ * extracted with; when a field is added or its definition changes, only that field is
+ * extracted again and merged into the existing results.
+ */
+
+// Signatures only need to tell definitions apart
+const hash = (text: string): string => hashText(text).toString(16).padStart(8, '0');
+
+/**
+ * The parts of a field that reach the model. Ids and colours are left out, so a new
+ * colour does not make every document stale.
+ */
+export const describeFieldForExtraction = (field: FieldDefinition) => {
+  const { id: _id, color: _color, ...definition } = field;
+  return { ...definition, columns: field.columns?.map(({ id: _cid, ...column }) => column) };
+};
+
+export const getFieldSignature = (field: FieldDefinition): string =>
+  hash(JSON.stringify(describeFieldForExtraction(field)));
+
+export const getFieldSignatures = (fields: FieldDefinition[]): Record<string, string> =>
+  Object.fromEntries(fields.map(field => [field.key, getFieldSignature(field)]));
+
+/**
+ * Fields the document has no current result for: never extracted, or extracted with a
+ * different definition. Documents from before signatures were recorded count every
+ * field they hold data for as current.
+ */
+export const getStaleFields = (doc: DocumentResult, fields: FieldDefinition[]): FieldDefinition[] => {
+  if (!doc.extractedWith) {
+    return doc.status === 'success' ? fields.filter(field => !(field.key in doc.data)) : fields;
+  }
+  return fields.filter(field => doc.extractedWith![field.key] !== getFieldSignature(field));
+};
+
+/**
+ * Merges a fresh extraction of some fields into the existing results. Other fields are
+ * left as they were, and reviewer overrides on the re-extracted fields are kept.
+ */
+export const mergeExtraction = (
+  existing: Record<string, ExtractedValue>,
+  fresh: Record<string, ExtractedValue>,
+  extractedFields: FieldDefinition[]
+): Record<string, ExtractedValue> => {
+  const previous = Object.fromEntries(extractedFields
+    .filter(field => existing[field.key])
+    .map(field => [field.key, existing[field.key]]));
+  return { ...existing, ...reapplyOverrides(fresh, previous) };
+};
@@ -0,0 +1,267 @@
+import { ColumnMapping, DocumentResult, FieldDefinition, MatchRule, ReconcileResult, ReconcileSummary } from './types';
+import { parseDate, parseNumber } from './fieldTypes';
+import {
+  DEFAULT_FUZZY_THRESHOLD, describeRule, getCompareMappings, getKeyMappings, getMappingRule, normalizeForMatch
+} from './columnMapping';
+import { getExtractedRows } from './prompts';
+
+/**
+ * Rule-based tie-out that runs in the browser: joins extracted rows to reference rows on
+ * the mapped key columns, each compared with its own rule (fuzzy text, numeric
+ * tolerance, date window, ID normalization), then checks the compare columns on every
+ * matched pair. Each joined row records the rules that matched it and the score.
+ */
+
+export const MATCH_STATUS = {
+  matched: 'Matched',
+  missingInReference: 'Missing in Reference',
+  missingInSource: 'Missing in Source'
+} as const;
+
+// Legal-form words that do not tell two company names apart
+const COMPANY_SUFFIXES = /\b(corporation|corp|incorporated|inc|limited|ltd|llc|llp|plc|gmbh|ag|sa|bv|nv|co|company|pty)\b/g;
+
+export const normalizeCompanyText = (value: any): string =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * "INV-00123", "inv 123" and "123" all become "123"; IDs without digits keep their letters.
+ */
+export const normalizeId = (value: any): string => {
+  const compact = String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  const withoutPrefix = /\d/.test(compact) ? compact.replace(/^[a-z]+(?=\d)/, '') : compact;
+  return withoutPrefix.replace(/^0+(?=.)/, '');
+};
+
+const bigrams = (text: string): string[] => {
+  const padded = ` ${text} `;
+  const grams: string[] = [];
+  for (let i = 0; i < padded.length - 1; i++) grams.push(padded.slice(i, i + 2));
+  return grams;
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalized text, 0-1.
+ */
+export const textSimilarity = (a: any, b: any): number => {
+  const left = normalizeCompanyText(a);
+  const right = normalizeCompanyText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftGrams = bigrams(left);
+  const counts = new Map<string, number>();
+  leftGrams.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let shared = 0;
+  const rightGrams = bigrams(right);
+  rightGrams.forEach(g => {
+    const n = counts.get(g) || 0;
+    if (n > 0) {
+      shared += 1;
+      counts.set(g, n - 1);
+    }
+  });
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+};
+
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value === null || value === undefined || value === '') return null;
+  return parseNumber(String(value));
+};
+
+const toDayNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const iso = value instanceof Date ? value.toISOString().slice(0, 10) : parseDate(String(value));
+  return iso ? Date.parse(`${iso}T00:00:00Z`) / 86_400_000 : null;
+};
+
+/**
+ * Score (0-1) of two values under a rule, or null when they do not match.
+ */
+export const compareValues = (left: any, right: any, rule: MatchRule): number | null => {
+  switch (rule.kind) {
+    case 'fuzzy': {
+      const score = textSimilarity(left, right);
+      return score >= (rule.threshold ?? DEFAULT_FUZZY_THRESHOLD) ? score : null;
+    }
+    case 'numeric': {
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      const difference = Math.abs(a - b);
+      const scale = Math.max(Math.abs(a), Math.abs(b));
+      const allowed = Math.max(rule.absoluteTolerance || 0, ((rule.percentTolerance || 0) / 100) * scale);
+      // A micro-unit of slack absorbs floating point noise
+      if (difference > allowed + 1e-6) return null;
+      return difference === 0 || scale === 0 ? 1 : Math.max(0, 1 - difference / scale);
+    }
+    case 'date': {
+      const a = toDayNumber(left);
+      const b = toDayNumber(right);
+      if (a === null || b === null) return null;
+      const difference = Math.abs(a - b);
+      const window = rule.days || 0;
+      return difference <= window ? 1 - difference / (window + 1) : null;
+    }
+    case 'id': {
+      const a = normalizeId(left);
+      return a && a === normalizeId(right) ? 1 : null;
+    }
+    default: {
+      const a = normalizeForMatch(left);
+      return a && a === normalizeForMatch(right) ? 1 : null;
+    }
+  }
+};
+
+interface RulePair {
+  field: FieldDefinition;
+  column: string;
+  rule: MatchRule;
+}
+
+const toRulePairs = (mapping: ColumnMapping[], fields: FieldDefinition[]): RulePair[] =>
+  mapping
+    .map(m => ({ field: fields.find(f => f.key === m.fieldKey), column: m.referenceColumn!, rule: getMappingRule(m, fields) }))
+    .filter((p): p is RulePair => !!p.field);
+
+const formatValue = (value: any) => value === null || value === undefined || value === '' ? '(blank)' : String(value);
+
+const roundScore = (score: number) => Math.round(score * 100) / 100;
+
+const MATCH_COLUMNS = ['Match_Status', 'Match_Rule', 'Match_Score', 'Differences'];
+
+/**
+ * Reference columns named like an extracted or match column get a "Reference: " prefix,
+ * so a joined row keeps both values (as pandas does with its _x/_y suffixes).
+ */
+const prefixReferenceColumns = (ref: Record<string, any>, taken: Set<string>): Record<string, any> => {
+  const renamed: Record<string, any> = {};
+  Object.entries(ref).forEach(([column, value]) => {
+    renamed[taken.has(column) ? `Reference: ${column}` : column] = value;
+  });
+  return renamed;
+};
+
+/**
+ * Joins extracted rows to reference rows with the mapping's rules. Each extracted row
+ * and each reference row is used once; the highest-scoring pairs are matched first.
+ */
+export const matchDatasets = (
+  documents: DocumentResult[],
+  fields: FieldDefinition[],
+  referenceData: any[],
+  mapping: ColumnMapping[]
+): any[] => {
+  const extractedRows = getExtractedRows(documents, fields);
+  const taken = new Set(['fileName', ...fields.map(f => f.name), ...MATCH_COLUMNS]);
+  const keys = toRulePairs(getKeyMappings(mapping), fields);
+  const compares = toRulePairs(getCompareMappings(mapping), fields);
+
+  const candidates: { source: number; reference: number; score: number; scores: number[] }[] = [];
+  if (keys.length > 0) {
+    extractedRows.forEach((row, source) => {
+      referenceData.forEach((ref, reference) => {
+        const scores: number[] = [];
+        for (const key of keys) {
+          const score = compareValues(row[key.field.name], ref[key.column], key.rule);
+          if (score === null) return;
+          scores.push(score);
+        }
+        candidates.push({ source, reference, score: scores.reduce((a, b) => a + b, 0) / scores.length, scores });
+      });
+    });
+  }
+
+  const matchedSource = new Map<number, { reference: number; score: number; scores: number[] }>();
+  const usedReference = new Set<number>();
+  candidates.sort((a, b) => b.score - a.score).forEach(c => {
+    if (matchedSource.has(c.source) || usedReference.has(c.reference)) return;
+    matchedSource.set(c.source, c);
+    usedReference.add(c.reference);
+  });
+
+  const joinedData: any[] = extractedRows.map((row, source) => {
+    const match = matchedSource.get(source);
+    if (!match) return { ...row, Match_Status: MATCH_STATUS.missingInReference, Match_Rule: null, Match_Score: null, Differences: null };
+
+    const ref = referenceData[match.reference];
+    const differences = compares
+      .filter(c => compareValues(row[c.field.name], ref[c.column], c.rule) === null)
+      .map(c => `${c.field.name}: ${formatValue(row[c.field.name])} vs ${formatValue(ref[c.column])}`);
+    return {
+      ...row,
+      ...prefixReferenceColumns(ref, taken),
+      Match_Status: MATCH_STATUS.matched,
+      Match_Rule: keys.map((k, i) => `${k.field.name} ~ ${k.column}: ${k.rule.kind} (${roundScore(match.scores[i]).toFixed(2)})`).join('; '),
+      Match_Score: roundScore(match.score),
+      Differences: differences.length > 0 ? differences.join('; ') : null
+    };
+  });
+  referenceData.forEach((ref, i) => {
+    if (!usedReference.has(i)) {
+      joinedData.push({ fileName: null, ...prefixReferenceColumns(ref, taken), Match_Status: MATCH_STATUS.missingInSource, Match_Rule: null, Match_Score: null, Differences: null });
+    }
+  });
+  return joinedData;
+};
+
+export const summarizeMatches = (joinedData: any[]): ReconcileSummary => {
+  const count = (status: string) => joinedData.filter(r => r.Match_Status === status).length;
+  return {
+    matched: count(MATCH_STATUS.matched),
+    withDifferences: joinedData.filter(r => r.Match_Status === MATCH_STATUS.matched && r.Differences).length,
+    missingInReference: count(MATCH_STATUS.missingInReference),
+    missingInSource: count(MATCH_STATUS.missingInSource)
+  };
+};
+
+/**
+ * Runs the matching rules and writes a short report of the outcome.
+ */
+export const runMatching = (
+  documents: DocumentResult[],
+  fields: FieldDefinition[],
+  referenceData: any[],
+  mapping: ColumnMapping[]
+): ReconcileResult => {
+  const joinedData = matchDatasets(documents, fields, referenceData, mapping);
+  const summary = summarizeMatches(joinedData);
+  const inexact = joinedData.filter(r => r.Match_Status === MATCH_STATUS.matched && r.Match_Score < 1).length;
+
+  const ruleLines = (list: ColumnMapping[]) => toRulePairs(list, fields)
+    .map(p => `| ${p.field.name} | ${p.column} | ${describeRule(p.rule)} |`);
+
+  const report = [
+    '# Rule-Based Reconciliation',
+    '',
+    '| Status | Rows |',
+    '|---|---|',
+    `| Matched | ${summary.matched} |`,
+    `| Matched with differences | ${summary.withDifferences} |`,
+    `| Missing in Reference | ${summary.missingInReference} |`,
+    `| Missing in Source | ${summary.missingInSource} |`,
+    '',
+    `${inexact} of ${summary.matched} matches relied on a tolerance or fuzzy rule (score below 1.00).`,
+    '',
+    '## Match keys',
+    '',
+    '| Field | Reference column | Rule |',
+    '|---|---|---|',
+    ...ruleLines(getKeyMappings(mapping)),
+    '',
+    '## Compared columns',
+    '',
+    ...(getCompareMappings(mapping).length > 0
+      ? ['| Field | Reference column | Rule |', '|---|---|---|', ...ruleLines(getCompareMappings(mapping))]
+      : ['None.'])
+  ].join('\n');
+
+  return { report, code: '', joinedData, summary };
+};
@@ -0,0 +1,110 @@
+import { AIProvider, BoundingBox, ColumnMapping, DocumentResult, FieldDefinition, ExtractedValue, ExtractionOutput, ReconcileResult, TableColumn, TableRow } from './types';
+import { getKeyMappings } from './columnMapping';
+import { runMatching } from './matchingEngine';
+import { delay, hashText } from './utils';
+
+/**
+ * Deterministic provider for demos and tests. Values and boxes are derived from the
+ * file name and field key, so the same inputs always produce the same output, and
+ * nothing leaves the browser.
+ */
+
+const MOCK_LATENCY_MS = 300;
+
+const MOCK_TABLE_ROWS = 3;
+
+const mockValue = (spec: FieldDefinition | TableColumn, seed: number): string => {
+  const name = spec.name.toLowerCase();
+  if (name.includes('date')) {
+    const month = String((seed % 12) + 1).padStart(2, '0');
+    const day = String((seed % 28) + 1).padStart(2, '0');
+    return `2024-${month}-${day}`;
+  }
+  if (/amount|total|price|tax|balance/.test(name)) {
+    return ((seed % 1000000) / 100).toFixed(2);
+  }
+  if (/quantity|qty|count/.test(name)) {
+    return String((seed % 20) + 1);
+  }
+  if (/number|no\b|id\b|ref/.test(name)) {
+    return `INV-${String(seed % 100000).padStart(5, '0')}`;
+  }
+  return `${spec.name} ${seed % 1000}`;
+};
+
+// Mostly confident, with the occasional value low enough to need review
+const mockConfidence = (seed: number): number => 0.55 + (seed % 45) / 100;
+
+export const processDocument = async (
+  doc: DocumentResult,
+  fields: FieldDefinition[],
+  signal?: AbortSignal
+): Promise<ExtractionOutput> => {
+  await delay(MOCK_LATENCY_MS, signal);
+
+  const result: Record<string, ExtractedValue> = {};
+  fields.forEach((field, i) => {
+    const seed = hashText(`${doc.fileName}:${field.key}`);
+    // Stack boxes down the right-hand side of the page
+    const ymin = 80 + (i * 90) % 800;
+    const box: BoundingBox = [ymin, 550, ymin + 40, 900];
+
+    if (field.type === 'table') {
+      // Rows span the page width, one under another
+      const rows: TableRow[] = Array.from({ length: MOCK_TABLE_ROWS }, (_, r) => {
+        const cells: Record<string, ExtractedValue> = {};
+        (field.columns || []).forEach(column => {
+          const printed = mockValue(column, hashText(`${doc.fileName}:${field.key}:${r}:${column.key}`));
+          cells[column.key] = { value: printed, raw_text: printed };
+        });
+        const top = ymin + r * 50;
+        return { cells, box_2d: [top, 80, top + 40, 920], page: 1, confidence: mockConfidence(seed + r) };
+      });
+      result[field.key] = { value: null, rows, page: 1 };
+      return;
+    }
+
+    const printed = mockValue(field, seed);
+    result[field.key] = {
+      // Mock values stand in for printed text, normalized like a real model's raw_text
+      value: printed,
+      raw_text: printed,
+      box_2d: box,
+      // Totals usually live on the last page
+      page: /total/i.test(field.name) ? doc.pageCount : 1,
+      confidence: mockConfidence(seed)
+    };
+  });
+  return { data: result };
+};
+
+export const reconcileData = async (
+  documents: DocumentResult[],
+  fields: FieldDefinition[],
+  referenceData: any[],
+  mapping?: ColumnMapping[]
+): Promise<ReconcileResult> => {
+  await delay(MOCK_LATENCY_MS);
+
+  // Without a mapped key, join the first field to a same-named column
+  let joinMapping = mapping || [];
+  if (getKeyMappings(joinMapping).length === 0 && fields[0]) {
+    const referenceColumns = Object.keys(referenceData[0] || {});
+    const column = referenceColumns.find(c => c.toLowerCase() === fields[0].name.toLowerCase()) || referenceColumns[0];
+    if (column) joinMapping = [{ fieldKey: fields[0].key, referenceColumn: column, role: 'key', rule: { kind: 'exact' } }];
+  }
+
+  const result = runMatching(documents, fields, referenceData, joinMapping);
+  return {
+    ...result,
+    report: result.report.replace('# Rule-Based Reconciliation', '# Mock Reconciliation'),
+    code: '# Mock provider: no code was executed'
+  };
+};
+
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  processDocument,
+  reconcileData: (documents, fields, referenceData, _userInstructions, mapping) =>
+    reconcileData(documents, fields, referenceData, mapping)
+});
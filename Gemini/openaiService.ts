@@ -0,0 +1,177 @@
+import { AIProvider, ColumnMapping, DocumentResult, FieldDefinition, ExtractionOutput, ProviderSettings, ReconcileResult, TokenCounts } from './types';
+import { fileToBase64, fileToCanvases } from './utils';
+import { buildExtractionJsonSchema, buildExtractionPrompt, buildJoinInstructions, getExtractedRows } from './prompts';
+import { ExtractionError } from './extractionErrors';
+import { RECONCILE_OUTPUT_SCHEMA, readReconcileOutput } from './reconcileOutput';
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API
+ * (OpenAI itself, llama.cpp server, vLLM, Ollama, LM Studio...).
+ * Documents are sent as page images since these servers do not accept PDFs.
+ */
+
+const chatCompletion = async (
+  settings: ProviderSettings,
+  content: any[],
+  schemaName: string,
+  schema: Record<string, any>,
+  signal?: AbortSignal
+): Promise<{ text: string; tokens?: TokenCounts; truncated: boolean }> => {
+  if (!settings.baseUrl) {
+    throw new Error("Base URL is missing for the OpenAI-compatible provider");
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  const response = await fetch(`${settings.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: 0,
+      messages: [{ role: 'user', content }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: schemaName, schema }
+      }
+    })
+  });
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`OpenAI-compatible request failed (${response.status}): ${body}`);
+  }
+
+  const json = await response.json();
+  const choice = json.choices?.[0];
+  if (choice?.finish_reason === 'content_filter') {
+    throw new ExtractionError('safety_blocked', "The model's content filter blocked the response");
+  }
+  const text = choice?.message?.content;
+  if (!text) throw new ExtractionError('bad_response', "No response from model");
+  const tokens = json.usage
+    ? { promptTokens: json.usage.prompt_tokens || 0, responseTokens: json.usage.completion_tokens || 0 }
+    : undefined;
+  return { text, tokens, truncated: choice.finish_reason === 'length' };
+};
+
+// Some local servers wrap JSON in markdown fences even in JSON mode
+const parseJsonContent = (text: string): any => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    throw new ExtractionError('bad_response', "The model returned invalid JSON");
+  }
+};
+
+const documentToImageParts = async (file: File): Promise<any[]> => {
+  if (file.type.startsWith('image/')) {
+    return [{ type: 'image_url', image_url: { url: await fileToBase64(file) } }];
+  }
+  const canvases = await fileToCanvases(file, 1.5);
+  return canvases.map(canvas => ({
+    type: 'image_url',
+    image_url: { url: canvas.toDataURL('image/jpeg', 0.85) }
+  }));
+};
+
+export const processDocument = async (
+  doc: DocumentResult,
+  fields: FieldDefinition[],
+  settings: ProviderSettings,
+  signal?: AbortSignal
+): Promise<ExtractionOutput> => {
+  const imageParts = await documentToImageParts(doc.file);
+  const prompt = buildExtractionPrompt(fields) +
+    `\n    The document is provided as ${imageParts.length} page image(s), in page order.\n`;
+
+  try {
+    const { text, tokens } = await chatCompletion(
+      settings,
+      [{ type: 'text', text: prompt }, ...imageParts],
+      'extraction',
+      buildExtractionJsonSchema(fields),
+      signal
+    );
+    return { data: parseJsonContent(text), tokens };
+
+  } catch (error) {
+    console.error("OpenAI-compatible Error:", error);
+    throw error;
+  }
+};
+
+export const reconcileData = async (
+  documents: DocumentResult[],
+  fields: FieldDefinition[],
+  referenceData: any[],
+  userInstructions: string,
+  settings: ProviderSettings,
+  mapping?: ColumnMapping[]
+): Promise<ReconcileResult> => {
+  const extractedData = getExtractedRows(documents, fields);
+
+  const prompt = `
+    You are an expert data analyst performing a 'Tick & Tie' audit procedure.
+
+    Dataset 1: Extracted Data (from source documents)
+    ${JSON.stringify(extractedData, null, 2)}
+
+    Dataset 2: Reference Data (from user upload)
+    ${JSON.stringify(referenceData, null, 2)}
+
+    User Instructions:
+    "${userInstructions}"
+
+    Return a JSON object with:
+    - "report": a Markdown report of the analysis and findings. Print summary tables as Markdown tables.
+    - "rows": a "Full Outer Join" of both datasets (${buildJoinInstructions(fields, mapping)}),
+      one record per row with every column of both datasets. Preserve the 'fileName' column from the Extracted Data.
+      Set "Match_Status" on every row, and "Differences" to a short description of compared values that differ on a matched row (otherwise null).
+    - "summary": row counts by match status.
+  `;
+
+  const schema = {
+    ...RECONCILE_OUTPUT_SCHEMA,
+    properties: { report: { type: 'string' }, ...RECONCILE_OUTPUT_SCHEMA.properties },
+    required: ['report', ...RECONCILE_OUTPUT_SCHEMA.required]
+  };
+
+  try {
+    const { text, tokens, truncated } = await chatCompletion(settings, [{ type: 'text', text: prompt }], 'reconciliation', schema);
+    const expected = { sourceRows: extractedData.length, referenceRows: referenceData.length };
+    let json: any = null;
+    try {
+      json = parseJsonContent(text);
+    } catch {
+      // Checked below, where a cut-off response is told apart from a malformed one
+    }
+    const { joinedData, summary, warnings } = readReconcileOutput(json ?? text, expected, truncated);
+    return {
+      report: json?.report || (json
+        ? "Analysis completed, but no text explanation was returned."
+        : "The model's response could not be read."),
+      code: '',
+      joinedData,
+      summary,
+      warnings,
+      tokens
+    };
+
+  } catch (error) {
+    console.error("Reconciliation Error:", error);
+    throw error;
+  }
+};
+
+export const createOpenAIProvider = (settings: ProviderSettings): AIProvider => ({
+  kind: 'openai',
+  processDocument: (doc, fields, signal) => processDocument(doc, fields, settings, signal),
+  reconcileData: (documents, fields, referenceData, userInstructions, mapping) =>
+    reconcileData(documents, fields, referenceData, userInstructions, settings, mapping)
+});
@@ -0,0 +1,165 @@
+import { BoundingBox, ExtractedValue, FieldDefinition, TableRow } from './types';
+import { ExtractionError } from './extractionErrors';
+
+/**
+ * Checks a model response against the requested fields before it is accepted. Boxes
+ * are clamped, un-inverted or dropped, pages are kept in range, missing fields become
+ * empty (not found) values and unrequested keys are removed. Every repair is recorded as
+ * a warning; fields that are present but could not be repaired are reported so they can
+ * be asked for again.
+ */
+
+// Warnings keyed by field key; document-level warnings use DOCUMENT_WARNINGS
+export type ValidationWarnings = Record<string, string[]>;
+
+export const DOCUMENT_WARNINGS = '';
+
+export interface ValidatedOutput {
+  data: Record<string, ExtractedValue>;
+  warnings: ValidationWarnings;
+  failedFields: FieldDefinition[]; // Fields with nothing usable, worth asking for again
+}
+
+const BOX_MAX = 1000;
+
+const isRecord = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Repairs a [ymin, xmin, ymax, xmax] box. Returns undefined for a box that is present
+ * but unusable, null when there was no box.
+ */
+const repairBox = (box: any, warn: (message: string) => void): BoundingBox | null | undefined => {
+  if (box === null || box === undefined) return null;
+  const coords = Array.isArray(box) ? box.map(Number) : [];
+  if (coords.length !== 4 || coords.some(c => !Number.isFinite(c))) {
+    warn(`box ${JSON.stringify(box)} is not [ymin, xmin, ymax, xmax]; dropped`);
+    return undefined;
+  }
+
+  let [ymin, xmin, ymax, xmax] = coords;
+  if (coords.every(c => c >= 0 && c <= 1) && coords.some(c => c > 0)) {
+    warn('box was normalized to 0-1; scaled to 0-1000');
+    [ymin, xmin, ymax, xmax] = coords.map(c => c * BOX_MAX);
+  }
+  if ([ymin, xmin, ymax, xmax].some(c => c < 0 || c > BOX_MAX)) {
+    warn('box was outside 0-1000; clamped');
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(c => Math.min(BOX_MAX, Math.max(0, c)));
+  }
+  if (ymin > ymax || xmin > xmax) {
+    warn('box corners were inverted; swapped');
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+  }
+  if (ymin === ymax || xmin === xmax) {
+    warn('box has no area; dropped');
+    return undefined;
+  }
+  return [ymin, xmin, ymax, xmax].map(Math.round) as BoundingBox;
+};
+
+const repairPage = (page: any, pageCount: number, warn: (message: string) => void): number | null => {
+  if (page === null || page === undefined) return null;
+  const number = Math.round(Number(page));
+  if (!Number.isFinite(number)) {
+    warn(`page ${JSON.stringify(page)} is not a number; dropped`);
+    return null;
+  }
+  const clamped = Math.min(Math.max(1, pageCount), Math.max(1, number));
+  if (clamped !== number) warn(`page ${JSON.stringify(page)} is out of range; set to ${clamped}`);
+  return clamped;
+};
+
+// Returns null when the entry could not be read at all
+const repairEntry = (entry: any, warn: (message: string) => void): Record<string, any> | null => {
+  if (isRecord(entry)) return entry;
+  if (entry === null || typeof entry !== 'object') {
+    warn('returned a bare value instead of an object; wrapped');
+    return { value: entry };
+  }
+  return null;
+};
+
+export const validateExtraction = (
+  response: any,
+  fields: FieldDefinition[],
+  pageCount: number
+): ValidatedOutput => {
+  if (!isRecord(response)) {
+    throw new ExtractionError('bad_response', 'The model response is not a JSON object');
+  }
+
+  const warnings: ValidationWarnings = {};
+  const warnFor = (key: string) => (message: string) => {
+    (warnings[key] = warnings[key] || []).push(message);
+  };
+  const data: Record<string, ExtractedValue> = {};
+  const failedFields: FieldDefinition[] = [];
+
+  const extraKeys = Object.keys(response).filter(key => !fields.some(f => f.key === key));
+  if (extraKeys.length > 0) {
+    warnFor(DOCUMENT_WARNINGS)(`Removed unrequested keys: ${extraKeys.join(', ')}`);
+  }
+
+  fields.forEach(field => {
+    const warn = warnFor(field.key);
+    // Models often leave out fields they did not find; that is an answer, not a fault
+    if (!(field.key in response)) {
+      data[field.key] = { value: null };
+      return;
+    }
+
+    const entry = repairEntry(response[field.key], warn);
+    if (!entry) {
+      warn('unreadable entry; left empty');
+      data[field.key] = { value: null };
+      failedFields.push(field);
+      return;
+    }
+
+    if (field.type === 'table') {
+      if (!Array.isArray(entry.rows)) {
+        warn('rows are missing; left empty');
+        data[field.key] = { ...entry, value: null, rows: [] };
+        failedFields.push(field);
+        return;
+      }
+      let failed = false;
+      const rows: TableRow[] = entry.rows.filter(isRecord).map((row: Record<string, any>, i: number) => {
+        const warnRow = (message: string) => warn(`row ${i + 1} ${message}`);
+        const box = repairBox(row.box_2d, warnRow);
+        if (box === undefined) failed = true;
+        return {
+          ...row,
+          cells: isRecord(row.cells) ? row.cells : {},
+          box_2d: box ?? null,
+          page: repairPage(row.page, pageCount, warnRow)
+        } as TableRow;
+      });
+      if (rows.length < entry.rows.length) warn(`dropped ${entry.rows.length - rows.length} unreadable row(s)`);
+      data[field.key] = { ...entry, value: null, rows } as ExtractedValue;
+      if (failed) failedFields.push(field);
+      return;
+    }
+
+    const box = repairBox(entry.box_2d, warn);
+    data[field.key] = {
+      ...entry,
+      value: entry.value ?? null,
+      box_2d: box ?? null,
+      page: repairPage(entry.page, pageCount, warn)
+    } as ExtractedValue;
+    if (box === undefined) failedFields.push(field);
+  });
+
+  return { data, warnings, failedFields };
+};
+
+/**
+ * Flattens warnings to one line each, prefixed with the field name.
+ */
+export const formatWarnings = (warnings: ValidationWarnings, fields: FieldDefinition[]): string[] =>
+  Object.entries(warnings).flatMap(([key, messages]) => {
+    const name = fields.find(f => f.key === key)?.name;
+    return messages.map(message => name ? `${name}: ${message}` : message);
+  });
@@ -0,0 +1,93 @@
+import { BoundingBox, ExtractedValue, FieldDefinition, ValueOverride } from './types';
+import { formatExtractedValue, normalizeFieldValue } from './fieldTypes';
+
+/**
+ * Manual corrections. An override replaces the value the rest of the app sees, while
+ * the model's original output, the reviewer, the time and the reason travel with it.
+ */
+
+export interface OverrideEdit {
+  text?: string; // Value as the reviewer typed it
+  box_2d?: BoundingBox | null;
+  page?: number | null;
+  notApplicable?: boolean;
+}
+
+export interface OverrideAudit {
+  reviewer: string;
+  reason: string;
+}
+
+const EMPTY_VALUE: ExtractedValue = { value: null, raw_text: null, error: null, box_2d: null };
+
+export const isOverridden = (extracted: ExtractedValue | undefined): boolean => !!extracted?.override;
+
+/**
+ * The model's output for a value, whether or not it has been overridden.
+ */
+export const getModelValue = (extracted: ExtractedValue | undefined): ExtractedValue | undefined =>
+  extracted?.override ? extracted.override.original : extracted;
+
+export const applyOverride = (
+  current: ExtractedValue | undefined,
+  field: FieldDefinition,
+  edit: OverrideEdit,
+  audit: OverrideAudit
+): ExtractedValue => {
+  const original = getModelValue(current) || EMPTY_VALUE;
+  const override: ValueOverride = {
+    original,
+    notApplicable: !!edit.notApplicable,
+    reviewer: audit.reviewer.trim(),
+    reason: audit.reason.trim(),
+    timestamp: new Date().toISOString()
+  };
+
+  if (edit.notApplicable) {
+    return { ...EMPTY_VALUE, page: null, model_confidence: original.model_confidence, confidence: 1, override };
+  }
+
+  const next: ExtractedValue = { ...(current || EMPTY_VALUE), override, confidence: 1 };
+  if (edit.text !== undefined) {
+    const text = edit.text.trim();
+    const normalized = text ? normalizeFieldValue(text, field) : { value: null, error: null };
+    next.value = normalized.value;
+    next.raw_text = text || null;
+    next.error = normalized.error;
+  }
+  if (edit.box_2d !== undefined) next.box_2d = edit.box_2d;
+  if (edit.page !== undefined) next.page = edit.page;
+  return next;
+};
+
+/**
+ * Drops the override and goes back to the model's value.
+ */
+export const revertOverride = (extracted: ExtractedValue): ExtractedValue =>
+  extracted.override ? extracted.override.original : extracted;
+
+/**
+ * Carries reviewer overrides across a re-run: the human value stays, and the fresh model
+ * output becomes the new original.
+ */
+export const reapplyOverrides = (
+  fresh: Record<string, ExtractedValue>,
+  previous: Record<string, ExtractedValue>
+): Record<string, ExtractedValue> => {
+  const result = { ...fresh };
+  Object.entries(previous).forEach(([key, extracted]) => {
+    if (!extracted.override) return;
+    result[key] = { ...extracted, override: { ...extracted.override, original: fresh[key] || EMPTY_VALUE } };
+  });
+  return result;
+};
+
+/**
+ * One-line audit note, e.g. "Not applicable (J. Smith, 2024-05-01 14:03: duplicate page)".
+ */
+export const describeOverride = (override: ValueOverride, field: FieldDefinition): string => {
+  const when = override.timestamp.slice(0, 16).replace('T', ' ');
+  const who = [override.reviewer || 'Unknown reviewer', when].join(', ');
+  const what = override.notApplicable ? 'Not applicable' : `Was "${formatExtractedValue(override.original, field) || 'not found'}"`;
+  return `${what} (${who}${override.reason ? `: ${override.reason}` : ''})`;
+};
@@ -0,0 +1,226 @@
+import { ColumnMapping, DocumentResult, ExtractedValue, FieldDefinition, ProviderSettings, ReconcileRun, TokenUsage } from './types';
+import { downloadBlob, generateAnnotatedPages, renderPdfToImage } from './utils';
+import { inferFieldType } from './fieldTypes';
+import { DEFAULT_REVIEW_THRESHOLD } from './confidence';
+import { DEFAULT_PROVIDER_SETTINGS } from './providers';
+
+/**
+ * Project files: a zip holding the source documents and a project.json with everything
+ * else (fields, results, overrides, reference data, reconciliation runs), so an
+ * engagement can be closed, reopened the next day or handed to a reviewer.
+ *
+ * project.json carries a format version. Bump PROJECT_VERSION whenever its shape
+ * changes and add a migration from the previous version, so older files keep loading.
+ */
+
+export const PROJECT_FORMAT = 'tickandtie-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.tickandtie';
+
+const MANIFEST_NAME = 'project.json';
+const SOURCES_FOLDER = 'sources';
+
+export interface ProjectState {
+  fields: FieldDefinition[];
+  documents: DocumentResult[];
+  referenceData: any[];
+  referenceFileName: string | null;
+  columnMapping: ColumnMapping[];
+  reconcilePrompt: string;
+  reconcileRuns: ReconcileRun[];
+  providerSettings: ProviderSettings;
+  reviewThreshold: number;
+}
+
+// A document as stored in project.json; the file itself lives under sources/
+interface StoredDocument {
+  id: string;
+  fileName: string;
+  fileType: string;
+  pageCount: number;
+  status: DocumentResult['status'];
+  errorKind?: DocumentResult['errorKind'];
+  errorMsg?: string;
+  failedFields?: string[];
+  warnings?: string[];
+  extractedWith?: Record<string, string>;
+  usage?: TokenUsage;
+  data: Record<string, ExtractedValue>;
+  sourcePath: string;
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO 8601
+  fields: FieldDefinition[];
+  documents: StoredDocument[];
+  reference: { fileName: string | null; rows: any[] };
+  columnMapping: ColumnMapping[];
+  reconcilePrompt: string;
+  reconcileRuns: ReconcileRun[];
+  providerSettings: Omit<ProviderSettings, 'apiKey'>;
+  reviewThreshold: number;
+}
+
+// Each entry upgrades a manifest from the keyed version to the next one
+const MIGRATIONS: Record<number, (manifest: any) => any> = {};
+
+/**
+ * Brings a manifest of any supported version up to PROJECT_VERSION.
+ */
+export const migrateManifest = (manifest: any): ProjectManifest => {
+  if (!manifest || manifest.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a Tick & Tie project.');
+  }
+  let current = manifest;
+  let version = Number(current.version) || 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of Tick & Tie (format ${version}). Please update the app.`);
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Project format ${version} is no longer supported.`);
+    current = migrate(current);
+    version += 1;
+  }
+
+  // Fill anything a hand-edited or partially written file may be missing
+  return {
+    ...current,
+    version: PROJECT_VERSION,
+    fields: (current.fields || []).map((f: FieldDefinition) => ({ ...f, type: f.type || inferFieldType(f.name) })),
+    documents: current.documents || [],
+    reference: current.reference || { fileName: null, rows: [] },
+    columnMapping: current.columnMapping || [],
+    reconcilePrompt: current.reconcilePrompt ?? '',
+    reconcileRuns: current.reconcileRuns || [],
+    providerSettings: current.providerSettings || DEFAULT_PROVIDER_SETTINGS,
+    reviewThreshold: current.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD
+  };
+};
+
+const projectFileName = () => `TickAndTie_Project_${new Date().toISOString().slice(0, 10)}${PROJECT_EXTENSION}`;
+
+export const saveProject = async (state: ProjectState) => {
+  if (!window.JSZip) {
+    alert("Export libraries are still loading. Please try again in a moment.");
+    return;
+  }
+
+  const zip = new window.JSZip();
+  const documents: StoredDocument[] = state.documents.map(doc => {
+    // Keyed by document id so duplicate file names cannot collide
+    const sourcePath = `${SOURCES_FOLDER}/${doc.id}/${doc.fileName}`;
+    zip.file(sourcePath, doc.file);
+    return {
+      id: doc.id,
+      fileName: doc.fileName,
+      fileType: doc.fileType,
+      pageCount: doc.pageCount,
+      // A run in flight is not saved as finished
+      status: doc.status === 'processing' ? 'idle' : doc.status,
+      errorKind: doc.errorKind,
+      errorMsg: doc.errorMsg,
+      failedFields: doc.failedFields,
+      warnings: doc.warnings,
+      extractedWith: doc.extractedWith,
+      usage: doc.usage,
+      data: doc.data,
+      sourcePath
+    };
+  });
+
+  // Keys stay on this machine
+  const { apiKey: _apiKey, ...providerSettings } = state.providerSettings;
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    fields: state.fields,
+    documents,
+    reference: { fileName: state.referenceFileName, rows: state.referenceData },
+    columnMapping: state.columnMapping,
+    reconcilePrompt: state.reconcilePrompt,
+    reconcileRuns: state.reconcileRuns,
+    providerSettings,
+    reviewThreshold: state.reviewThreshold
+  };
+  zip.file(MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+
+  try {
+    const content = await zip.generateAsync({ type: "blob" });
+    downloadBlob(content, projectFileName());
+  } catch (error) {
+    console.error("Failed to save project", error);
+    alert("Failed to save the project file.");
+  }
+};
+
+/**
+ * Reads a project file back into app state. Previews and annotated pages are not
+ * stored; they are rebuilt from the source files.
+ */
+export const loadProject = async (file: File): Promise<ProjectState> => {
+  const zip = await window.JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_NAME);
+  if (!manifestFile) throw new Error('This file is not a Tick & Tie project.');
+  const manifest = migrateManifest(JSON.parse(await manifestFile.async('string')));
+
+  const documents: DocumentResult[] = [];
+  for (const stored of manifest.documents) {
+    const source = zip.file(stored.sourcePath);
+    if (!source) {
+      console.error("Project is missing source file", stored.sourcePath);
+      continue;
+    }
+    const sourceFile = new File([await source.async('blob')], stored.fileName, { type: stored.fileType });
+
+    let previewUrl: string | null = null;
+    try {
+      previewUrl = await renderPdfToImage(sourceFile);
+    } catch (err) {
+      console.error("Failed to load preview for", stored.fileName, err);
+    }
+
+    let annotatedPages: DocumentResult['annotatedPages'];
+    if (stored.status === 'success') {
+      try {
+        annotatedPages = await generateAnnotatedPages(sourceFile, stored.data, manifest.fields);
+      } catch (err) {
+        console.error("Failed to generate annotation", err);
+      }
+    }
+
+    documents.push({
+      id: stored.id,
+      file: sourceFile,
+      fileName: stored.fileName,
+      fileType: stored.fileType,
+      previewUrl,
+      pageCount: stored.pageCount || 1,
+      annotatedPages,
+      status: stored.status,
+      errorKind: stored.errorKind,
+      errorMsg: stored.errorMsg,
+      failedFields: stored.failedFields,
+      warnings: stored.warnings,
+      extractedWith: stored.extractedWith,
+      usage: stored.usage,
+      data: stored.data || {}
+    });
+  }
+
+  return {
+    fields: manifest.fields,
+    documents,
+    referenceData: manifest.reference.rows || [],
+    referenceFileName: manifest.reference.fileName,
+    columnMapping: manifest.columnMapping,
+    reconcilePrompt: manifest.reconcilePrompt,
+    reconcileRuns: manifest.reconcileRuns,
+    providerSettings: manifest.providerSettings as ProviderSettings,
+    reviewThreshold: manifest.reviewThreshold
+  };
+};
@@ -0,0 +1,168 @@
+import { ColumnMapping, DocumentResult, FieldDefinition, TableColumn } from './types';
+import { describeCanonicalValue, describeFieldType, getValueSchemaType } from './fieldTypes';
+import { describeRule, getCompareMappings, getKeyMappings, getMappingRule } from './columnMapping';
+
+/**
+ * Prompt text and payload helpers shared by every AI provider, so switching
+ * providers changes the model, not the audit instructions.
+ */
+
+/**
+ * Combines a field's description, synonyms and negative hints into one instruction,
+ * used both in the prompt and as the schema property description.
+ */
+export const describeFieldInstructions = (field: FieldDefinition): string => {
+  const parts: string[] = [];
+  if (field.description?.trim()) parts.push(field.description.trim());
+  const synonyms = (field.synonyms || []).filter(s => s.trim());
+  if (synonyms.length > 0) parts.push(`Look for labels such as: ${synonyms.map(s => `"${s.trim()}"`).join(', ')}.`);
+  const hints = (field.negativeHints || []).filter(h => h.trim());
+  if (hints.length > 0) parts.push(`Do NOT use: ${hints.map(h => h.trim()).join('; ')}.`);
+  return parts.join(' ');
+};
+
+const describeFieldForPrompt = (field: FieldDefinition): string => {
+  const instructions = describeFieldInstructions(field);
+  return `    - ${field.name} (${describeFieldType(field)})${instructions ? `: ${instructions}` : ''}`;
+};
+
+export const buildExtractionPrompt = (fields: FieldDefinition[]): string => `
+    You are an expert internal auditor.
+    Analyze the provided document.
+    Extract the following fields:
+${fields.map(describeFieldForPrompt).join('\n')}
+    Follow each field's instructions closely: prefer the listed labels and never return a value the field says not to use.
+    For each field, find the value, the text exactly as printed, the 2D bounding box coordinates and the page it appears on.
+    Return the value in the canonical form described by the schema (numbers as numbers, dates as YYYY-MM-DD),
+    and the printed text unchanged in raw_text.
+    If a field is not found, return null for value and raw_text.
+    Report a confidence from 0 to 1 for each value (and each table row). Be honest: use low scores for blurry,
+    handwritten or ambiguous values, and when several candidates could be the one asked for.
+    For table fields, return one entry per line item with its own bounding box around the whole row; return an empty list if there are none.
+    The bounding box should be normalized to a 0-1000 scale in [ymin, xmin, ymax, xmax] order, relative to that page only.
+    The document may have several pages: report the 1-based page number where the value was found (use 1 for single images).
+    Values such as totals are often on the last page; search every page before concluding a field is missing.
+  `;
+
+/**
+ * Standard JSON Schema for the extraction response, for providers that accept one
+ * (OpenAI-compatible `response_format`). Mirrors the Gemini response schema.
+ */
+export const buildExtractionJsonSchema = (fields: FieldDefinition[]): Record<string, any> => {
+  const box = {
+    type: ['array', 'null'],
+    items: { type: 'integer' },
+    description: "The bounding box in [ymin, xmin, ymax, xmax] format (normalized 0-1000)."
+  };
+  const page = { type: ['integer', 'null'], description: "The 1-based page number the bounding box refers to." };
+  const confidence = { type: ['number', 'null'], description: "How confident you are that this is the right value, read correctly, from 0 to 1." };
+  const valueSchema = (spec: FieldDefinition | TableColumn) => ({
+    type: [getValueSchemaType(spec.type), 'null'],
+    description: describeCanonicalValue(spec),
+    ...(spec.type === 'enum' && spec.options?.allowedValues?.length
+      ? { enum: [...spec.options.allowedValues, null] }
+      : {})
+  });
+
+  const properties: Record<string, any> = {};
+  fields.forEach(field => {
+    const description = [`Extraction result for ${field.name}.`, describeFieldInstructions(field)].filter(Boolean).join(' ');
+
+    if (field.type === 'table') {
+      const columns = field.columns || [];
+      const cellProperties: Record<string, any> = {};
+      columns.forEach(column => {
+        cellProperties[column.key] = {
+          type: 'object',
+          properties: {
+            value: valueSchema(column),
+            raw_text: { type: ['string', 'null'], description: `The text of ${column.name} exactly as printed` }
+          },
+          required: ['value', 'raw_text']
+        };
+      });
+      properties[field.key] = {
+        type: 'object',
+        description,
+        properties: {
+          rows: {
+            type: 'array',
+            description: `Every row of ${field.name}, in document order. Do not include header, subtotal or total rows.`,
+            items: {
+              type: 'object',
+              properties: {
+                cells: { type: 'object', properties: cellProperties, required: columns.map(c => c.key) },
+                box_2d: box,
+                page,
+                confidence
+              },
+              required: ['cells', 'box_2d', 'page', 'confidence']
+            }
+          }
+        },
+        required: ['rows']
+      };
+      return;
+    }
+
+    properties[field.key] = {
+      type: 'object',
+      description,
+      properties: {
+        value: valueSchema(field),
+        raw_text: { type: ['string', 'null'], description: `The text of ${field.name} exactly as printed on the document` },
+        box_2d: box,
+        page,
+        confidence
+      },
+      required: ['value', 'raw_text', 'box_2d', 'page', 'confidence']
+    };
+  });
+  return {
+    type: 'object',
+    properties,
+    required: fields.map(f => f.key)
+  };
+};
+
+/**
+ * Flattens successfully extracted documents into rows keyed by field name.
+ */
+export const getExtractedRows = (documents: DocumentResult[], fields: FieldDefinition[]): any[] =>
+  documents
+    .filter(d => d.status === 'success')
+    .map(d => {
+      const row: any = { fileName: d.fileName };
+      fields.forEach(f => {
+        if (f.type === 'table') {
+          // Line items travel as a list of records keyed by column name
+          row[f.name] = (d.data[f.key]?.rows || []).map(r => {
+            const item: any = {};
+            (f.columns || []).forEach(c => { item[c.name] = r.cells[c.key]?.value ?? null; });
+            return item;
+          });
+          return;
+        }
+        row[f.name] = d.data[f.key]?.value ?? null;
+      });
+      return row;
+    });
+
+/**
+ * Join instructions for the reconciliation prompt: the mapped key and compare columns
+ * when the user confirmed a mapping, otherwise left to the model.
+ */
+export const buildJoinInstructions = (fields: FieldDefinition[], mapping?: ColumnMapping[]): string => {
+  const fieldName = (m: ColumnMapping) => fields.find(f => f.key === m.fieldKey)?.name ?? m.fieldKey;
+  const pairs = (list: ColumnMapping[]) => list
+    .map(m => `'${fieldName(m)}' = '${m.referenceColumn}' (${describeRule(getMappingRule(m, fields))})`)
+    .join(', ');
+  const keys = getKeyMappings(mapping || []);
+  if (keys.length === 0) return 'matching on the most logical columns like Invoice Number or Amount';
+
+  const compares = getCompareMappings(mapping || []);
+  return `matching ONLY on these key columns (Extracted Data column = Reference Data column): ${pairs(keys)}` +
+    (compares.length > 0
+      ? `. On matched rows, compare ${pairs(compares)} and report every difference`
+      : '');
+};
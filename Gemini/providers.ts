@@ -0,0 +1,94 @@
+import { AIProvider, ProviderKind, ProviderSettings } from './types';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAIProvider } from './openaiService';
+import { createMockProvider } from './mockService';
+import { normalizeExtractedData } from './fieldTypes';
+import { scoreExtractedData } from './confidence';
+import { getPageTexts } from './utils';
+import { checkExtractable } from './extractionErrors';
+import { formatWarnings, validateExtraction } from './outputValidation';
+import { addTokenCounts } from './usage';
+
+export const PROVIDER_OPTIONS: { kind: ProviderKind; label: string; defaultModel: string }[] = [
+  { kind: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { kind: 'openai', label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini' },
+  { kind: 'mock', label: 'Mock (demo)', defaultModel: 'mock' }
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'gemini',
+  model: 'gemini-2.5-flash',
+  retryInvalidFields: true
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8080/v1';
+
+const createProvider = (settings: ProviderSettings): AIProvider => {
+  switch (settings.kind) {
+    case 'openai':
+      return createOpenAIProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+const readPageTexts = async (file: File): Promise<string[]> => {
+  try {
+    return await getPageTexts(file);
+  } catch (error) {
+    console.error("Could not read PDF text layer", error);
+    return [];
+  }
+};
+
+/**
+ * Returns the provider for the settings. Files the providers cannot take are rejected
+ * up front. Extraction results are validated against the requested fields (asking once
+ * more for fields that could not be repaired), then normalized to each field's type and
+ * scored here, so every provider yields canonical values, validation errors, confidences
+ * and repair warnings.
+ */
+export const getProvider = (settings: ProviderSettings): AIProvider => {
+  const provider = createProvider(settings);
+  return {
+    ...provider,
+    processDocument: async (doc, fields, signal) => {
+      checkExtractable(doc.file);
+      const output = await provider.processDocument(doc, fields, signal);
+      const { data, warnings, failedFields } = validateExtraction(output.data, fields, doc.pageCount);
+      let tokens = output.tokens;
+
+      if (failedFields.length > 0 && settings.retryInvalidFields !== false) {
+        try {
+          const retryOutput = await provider.processDocument(doc, failedFields, signal);
+          tokens = addTokenCounts(tokens, retryOutput.tokens);
+          const retry = validateExtraction(retryOutput.data, failedFields, doc.pageCount);
+          failedFields.forEach(field => {
+            // Leaving the field out the second time is no better answer than the first
+            if (retry.failedFields.includes(field) || !(field.key in retryOutput.data)) {
+              warnings[field.key].push('still invalid after asking the model again');
+              return;
+            }
+            data[field.key] = retry.data[field.key];
+            warnings[field.key] = [...warnings[field.key], 'asked the model again', ...(retry.warnings[field.key] || [])];
+          });
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          // The first answer is kept (and paid for) when the follow-up request fails
+          console.error("Follow-up request for invalid fields failed", error);
+          failedFields.forEach(field => warnings[field.key].push('could not ask the model again'));
+        }
+      }
+
+      const normalized = normalizeExtractedData(data, fields);
+      return {
+        ...output,
+        data: scoreExtractedData(normalized, fields, await readPageTexts(doc.file)),
+        warnings: formatWarnings(warnings, fields),
+        tokens
+      };
+    }
+  };
+};
@@ -0,0 +1,133 @@
+import { ReconcileSummary } from './types';
+import { MATCH_STATUS, summarizeMatches } from './matchingEngine';
+
+/**
+ * Structured output of an AI reconciliation: the joined rows, each with a match status,
+ * and summary counts. The output is checked before it is accepted, so a response that
+ * was cut off or only covers part of the data is reported instead of silently dropped.
+ */
+
+const MATCH_STATUSES: string[] = Object.values(MATCH_STATUS);
+
+const COUNT = { type: 'integer' };
+
+export const RECONCILE_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'object',
+      properties: { matched: COUNT, withDifferences: COUNT, missingInReference: COUNT, missingInSource: COUNT },
+      required: ['matched', 'withDifferences', 'missingInReference', 'missingInSource']
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          Match_Status: { type: 'string', enum: MATCH_STATUSES },
+          Differences: { type: ['string', 'null'] }
+        },
+        required: ['Match_Status']
+      }
+    }
+  },
+  required: ['summary', 'rows']
+};
+
+/**
+ * The output format in words, for providers that cannot enforce a schema.
+ */
+export const describeReconcileOutput = (): string => `
+       a JSON object with two keys:
+       - "rows": the joined rows, one record per row with every column of both datasets, plus
+         "Match_Status" (one of ${MATCH_STATUSES.map(s => `"${s}"`).join(', ')}) and "Differences"
+         (a short description of compared values that differ on a matched row, otherwise null).
+       - "summary": {"matched", "withDifferences", "missingInReference", "missingInSource"} row counts.`;
+
+export interface ReconcileOutputCheck {
+  joinedData?: any[];
+  summary?: ReconcileSummary;
+  warnings: string[];
+}
+
+// Some models wrap JSON in markdown fences
+const stripFences = (text: string) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : text).trim();
+};
+
+const canonicalStatus = (value: any): string | null =>
+  MATCH_STATUSES.find(s => s.toLowerCase() === String(value ?? '').trim().toLowerCase()) ?? null;
+
+/**
+ * Parses and checks the model's joined dataset. `expected` holds the row counts of the
+ * two inputs: every extracted and every reference row should appear exactly once.
+ */
+export const readReconcileOutput = (
+  raw: string | object | undefined,
+  expected: { sourceRows: number; referenceRows: number },
+  truncated = false
+): ReconcileOutputCheck => {
+  const warnings: string[] = [];
+  if (truncated) warnings.push('The response hit the model\'s output limit and was cut off.');
+  if (raw === undefined || raw === null || raw === '') {
+    warnings.push('The model did not return a joined dataset.');
+    return { warnings };
+  }
+
+  let parsed: any = raw;
+  if (typeof raw === 'string') {
+    const text = stripFences(raw);
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      warnings.push(text.endsWith('}')
+        ? 'The joined dataset was not valid JSON.'
+        : 'The joined dataset was cut off before it was complete.');
+      return { warnings };
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.rows)) {
+    warnings.push('The joined dataset did not have the expected "rows" list.');
+    return { warnings };
+  }
+
+  const rows = parsed.rows.filter((row: any) => row && typeof row === 'object' && !Array.isArray(row));
+  if (rows.length < parsed.rows.length) {
+    const dropped = parsed.rows.length - rows.length;
+    warnings.push(`${dropped} joined row${dropped === 1 ? ' was' : 's were'} not a record and dropped.`);
+  }
+  let unknownStatus = 0;
+  const joinedData = rows.map((row: any) => {
+    const status = canonicalStatus(row.Match_Status);
+    if (!status) unknownStatus += 1;
+    return { ...row, Match_Status: status ?? row.Match_Status ?? null, Differences: row.Differences || null };
+  });
+  if (unknownStatus > 0) warnings.push(`${unknownStatus} joined row${unknownStatus === 1 ? ' has' : 's have'} no recognised match status.`);
+
+  // Counts come from the rows themselves; a summary that disagrees suggests missing rows
+  const summary = summarizeMatches(joinedData);
+  const stated = parsed.summary;
+  if (stated && typeof stated === 'object') {
+    const mismatched = (Object.keys(summary) as (keyof ReconcileSummary)[])
+      .filter(key => typeof stated[key] === 'number' && stated[key] !== summary[key]);
+    if (mismatched.length > 0) {
+      warnings.push(`The model's summary does not agree with its rows (${mismatched
+        .map(key => `${key}: ${stated[key]} stated, ${summary[key]} in rows`).join('; ')}).`);
+    }
+  } else {
+    warnings.push('The joined dataset had no summary.');
+  }
+
+  const sourceRows = summary.matched + summary.missingInReference;
+  const referenceRows = summary.matched + summary.missingInSource;
+  if (sourceRows !== expected.sourceRows) {
+    warnings.push(`The joined dataset accounts for ${sourceRows} of ${expected.sourceRows} extracted rows.`);
+  }
+  if (referenceRows !== expected.referenceRows) {
+    warnings.push(`The joined dataset accounts for ${referenceRows} of ${expected.referenceRows} reference rows.`);
+  }
+
+  return { joinedData, summary, warnings };
+};
@@ -0,0 +1,394 @@
+import { isAmbiguousNumber, parseDate, parseNumber } from './fieldTypes';
+
+/**
+ * Reference data import. Workbooks are read as raw grids so the user can pick the
+ * sheet and header row; rows are then typed column by column, so amounts stored as
+ * text become numbers, date serials become dates and IDs keep their leading zeros.
+ */
+
+export type ReferenceColumnType = 'text' | 'id' | 'number' | 'currency' | 'date';
+
+export const REFERENCE_COLUMN_TYPES: { type: ReferenceColumnType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'id', label: 'ID (keep as text)' },
+  { type: 'number', label: 'Number' },
+  { type: 'currency', label: 'Currency' },
+  { type: 'date', label: 'Date' }
+];
+
+export type ReferenceDateOrder = 'dmy' | 'mdy';
+
+export const REFERENCE_DATE_ORDERS: { order: ReferenceDateOrder; label: string }[] = [
+  { order: 'dmy', label: 'Day first' },
+  { order: 'mdy', label: 'Month first' }
+];
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+type Cell = string | number | boolean | Date | null;
+
+export interface ReferenceSheet {
+  name: string;
+  rows: Cell[][];
+}
+
+export interface ReferenceWorkbook {
+  fileName: string;
+  sheets: ReferenceSheet[];
+  // CSV only: the decoded text, so it can be split again with another delimiter
+  csv?: { text: string; delimiter: string; encoding: string };
+}
+
+export interface ReferenceColumn {
+  name: string;
+  type: ReferenceColumnType;
+  dateOrder?: ReferenceDateOrder; // Date columns: how 03/04/2024 is read
+  decimalSeparator?: '.' | ','; // Number columns: read from the values that show it
+}
+
+export interface ReferenceImportOptions {
+  headerRow: number; // 0-based index into the sheet's rows
+  skipTotals: boolean;
+  columnTypes?: Record<string, ReferenceColumnType>; // User choices, by column name
+  dateOrders?: Record<string, ReferenceDateOrder>;
+}
+
+export interface ReferenceImport {
+  columns: ReferenceColumn[];
+  rows: Record<string, any>[];
+  skippedRows: number; // Blank and total rows left out
+}
+
+const HEADER_SCAN_ROWS = 20;
+const TYPE_MATCH_SHARE = 0.8; // Share of non-empty values that must fit a type
+const TOTAL_ROW = /^\s*(grand\s+|sub\s*)?totals?\b/i;
+// Amounts printed as text: digits and separators with an optional sign or currency symbol
+const AMOUNT_TEXT = /^\s*[-(]?\s*[$€£¥]?\s*[\d.,\s]*\d[\d.,\s]*[)-]?\s*$/;
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/;
+const AMOUNT_HEADER = /amount|total|price|cost|balance|value|net|gross|tax|debit|credit|paid|due/i;
+const DATE_HEADER = /date|period|posted|dated/i;
+// Excel serials for 1954-2119, so plain numbers are not mistaken for dates
+const DATE_SERIAL_MIN = 20000;
+const DATE_SERIAL_MAX = 80000;
+
+const isBlank = (cell: Cell | undefined) => cell === null || cell === undefined || (typeof cell === 'string' && !cell.trim());
+
+// --- Reading files ---
+
+const readArrayBuffer = (file: File): Promise<ArrayBuffer> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(file);
+});
+
+/**
+ * Decodes CSV bytes: byte-order marks first, then strict UTF-8, falling back to
+ * Windows-1252 for files saved by older Excel versions.
+ */
+const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16 LE' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16 BE' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+// Counts a delimiter per line outside quotes
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+/**
+ * Picks the delimiter that splits the first lines into the same, largest number of columns.
+ */
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 20);
+  let best = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const counts = lines.map(line => countOutsideQuotes(line, value));
+    const columns = Math.max(0, ...counts);
+    const consistent = counts.filter(c => c === columns).length / (counts.length || 1);
+    const score = columns * consistent;
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Splits CSV text into rows, honouring quoted fields with embedded delimiters, quotes
+ * and line breaks. Every cell stays text; typing happens per column later.
+ */
+export const parseCsv = (text: string, delimiter: string): Cell[][] => {
+  const rows: Cell[][] = [];
+  let row: Cell[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Copies each merged range's value into every cell it covers
+const fillMerges = (rows: Cell[][], worksheet: any) => {
+  const merges: any[] = worksheet['!merges'] || [];
+  if (merges.length === 0 || !worksheet['!ref']) return;
+  const origin = window.XLSX.utils.decode_range(worksheet['!ref']).s;
+  merges.forEach(({ s, e }) => {
+    const value = rows[s.r - origin.r]?.[s.c - origin.c] ?? null;
+    for (let r = s.r; r <= e.r; r++) {
+      for (let c = s.c; c <= e.c; c++) {
+        const row = rows[r - origin.r];
+        if (row) row[c - origin.c] = value;
+      }
+    }
+  });
+};
+
+export const readReferenceFile = async (file: File): Promise<ReferenceWorkbook> => {
+  const buffer = await readArrayBuffer(file);
+
+  if (/\.(csv|tsv|txt)$/i.test(file.name) || file.type === 'text/csv') {
+    const { text, encoding } = decodeText(buffer);
+    const delimiter = detectDelimiter(text);
+    return {
+      fileName: file.name,
+      sheets: [{ name: file.name, rows: parseCsv(text, delimiter) }],
+      csv: { text, delimiter, encoding }
+    };
+  }
+
+  const workbook = window.XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheets = workbook.SheetNames.map((name: string) => {
+    const worksheet = workbook.Sheets[name];
+    const rows: Cell[][] = window.XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: true, defval: null, blankrows: true });
+    fillMerges(rows, worksheet);
+    return { name, rows };
+  });
+  return { fileName: file.name, sheets };
+};
+
+/**
+ * Re-splits a CSV workbook with another delimiter.
+ */
+export const withDelimiter = (workbook: ReferenceWorkbook, delimiter: string): ReferenceWorkbook => {
+  if (!workbook.csv) return workbook;
+  return {
+    ...workbook,
+    sheets: [{ name: workbook.sheets[0].name, rows: parseCsv(workbook.csv.text, delimiter) }],
+    csv: { ...workbook.csv, delimiter }
+  };
+};
+
+// --- Header detection and typing ---
+
+const isTextLabel = (cell: Cell) =>
+  typeof cell === 'string' && cell.trim() !== '' && parseNumber(cell) === null && !isAmbiguousNumber(cell);
+
+/**
+ * The header is the first row that is all text labels and about as wide as the data,
+ * which skips titles, report dates and cover notes above the table.
+ */
+export const detectHeaderRow = (rows: Cell[][]): number => {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  const widths = scanned.map(row => row.filter(cell => !isBlank(cell)).length);
+  const maxWidth = Math.max(0, ...widths);
+  const index = scanned.findIndex((row, i) =>
+    widths[i] >= 2 && widths[i] >= maxWidth * 0.6 && row.every(cell => isBlank(cell) || isTextLabel(cell)));
+  return index === -1 ? 0 : index;
+};
+
+const getColumnNames = (header: Cell[], width: number): string[] => {
+  const used = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const cell = header[i];
+    const base = isBlank(cell) ? `Column ${i + 1}` : String(cell instanceof Date ? cell.toISOString().substring(0, 10) : cell).trim();
+    const seen = used.get(base) || 0;
+    used.set(base, seen + 1);
+    return seen === 0 ? base : `${base} (${seen + 1})`;
+  });
+};
+
+const isDateSerial = (value: Cell) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= DATE_SERIAL_MIN && value <= DATE_SERIAL_MAX;
+
+const serialToIsoDate = (serial: number): string =>
+  new Date(Date.UTC(1899, 11, 30) + serial * 86400000).toISOString().substring(0, 10);
+
+const toNumber = (value: Cell, decimalSeparator?: '.' | ','): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseNumber(value, decimalSeparator);
+  return null;
+};
+
+/**
+ * The column's decimal separator, from the first value that shows it: both separators
+ * ("1,250.00"), a separator not followed by three digits ("12,5") or a repeated one
+ * ("1.250.000"). Undefined when every value is ambiguous, such as "1.250".
+ */
+export const detectDecimalSeparator = (values: Cell[]): '.' | ',' | undefined => {
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const text = value.replace(/[^\d.,]/g, '');
+    const last = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+    if (last === -1) continue;
+    const separator = text[last] as '.' | ',';
+    const other = separator === '.' ? ',' : '.';
+    if (text.includes(other) || text.length - last - 1 !== 3) return separator;
+    if (text.indexOf(separator) !== last) return other;
+  }
+  return undefined;
+};
+
+// A total row starts with its label and holds only amounts, so a line item described
+// as "Total care package" with its own date or ID is kept
+const isTotalRow = (row: Cell[]) => {
+  const labelIndex = row.findIndex(cell => !isBlank(cell));
+  const label = row[labelIndex];
+  return typeof label === 'string' && TOTAL_ROW.test(label) &&
+    row.slice(labelIndex + 1).every(cell => isBlank(cell) || typeof cell === 'number' || (typeof cell === 'string' && AMOUNT_TEXT.test(cell)));
+};
+
+/**
+ * Day first when any numeric date in the column starts above 12, otherwise month first.
+ * Decided once per column, so 03/04 and 13/04 in the same column are read alike.
+ */
+export const detectDateOrder = (values: Cell[]): ReferenceDateOrder =>
+  values.some(value => typeof value === 'string' && Number(value.trim().match(NUMERIC_DATE)?.[1]) > 12) ? 'dmy' : 'mdy';
+
+const toDate = (value: Cell, order: ReferenceDateOrder): string | null => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString().substring(0, 10);
+  if (isDateSerial(value)) return serialToIsoDate(value as number);
+  if (typeof value !== 'string') return null;
+  const numeric = value.trim().match(NUMERIC_DATE);
+  if (!numeric) return parseDate(value);
+  const [, first, second, year] = numeric;
+  const yearToken = year.length === 4 ? 'YYYY' : 'YY';
+  return parseDate(`${first}/${second}/${year}`, order === 'dmy' ? `DD/MM/${yearToken}` : `MM/DD/${yearToken}`);
+};
+
+const mostly = (values: Cell[], test: (value: Cell) => boolean) =>
+  values.length > 0 && values.filter(test).length / values.length >= TYPE_MATCH_SHARE;
+
+export const inferColumnType = (name: string, values: Cell[]): ReferenceColumnType => {
+  const present = values.filter(value => !isBlank(value));
+  if (present.length === 0) return 'text';
+
+  const dateHeader = DATE_HEADER.test(name);
+  if (mostly(present, value => value instanceof Date || (typeof value === 'string' && parseDate(value) !== null) || (dateHeader && isDateSerial(value)))) {
+    return 'date';
+  }
+  // Digits with leading zeros, or long digit strings, are identifiers, not amounts
+  if (present.some(value => typeof value === 'string' && /^0\d+$/.test(value.trim())) ||
+      mostly(present, value => typeof value === 'string' && /^\d{9,}$/.test(value.trim()))) {
+    return 'id';
+  }
+  if (mostly(present, value => toNumber(value) !== null || (typeof value === 'string' && isAmbiguousNumber(value)))) {
+    const looksLikeMoney = AMOUNT_HEADER.test(name) ||
+      present.some(value => typeof value === 'string' && /[$€£¥]|\d[.,]\d{2}$/.test(value.trim()));
+    return looksLikeMoney ? 'currency' : 'number';
+  }
+  return 'text';
+};
+
+const convertCell = (value: Cell, column: ReferenceColumn): string | number | boolean | null => {
+  if (isBlank(value)) return null;
+  switch (column.type) {
+    case 'number':
+    case 'currency': {
+      // Ambiguous amounts stay as printed rather than being read the wrong way
+      const number = toNumber(value, column.decimalSeparator);
+      return number === null ? String(value) : number;
+    }
+    case 'date':
+      return toDate(value, column.dateOrder ?? 'mdy') ?? String(value);
+    default:
+      return value instanceof Date ? value.toISOString().substring(0, 10) : typeof value === 'string' ? value.trim() : String(value);
+  }
+};
+
+/**
+ * Turns a sheet into typed records, using the given header row and leaving out blank
+ * rows and (optionally) total rows.
+ */
+export const buildReferenceImport = (sheet: ReferenceSheet, options: ReferenceImportOptions): ReferenceImport => {
+  const header = sheet.rows[options.headerRow] || [];
+  const body = sheet.rows.slice(options.headerRow + 1);
+  // A loop rather than Math.max(...rows), which overflows the stack on large sheets
+  const width = body.reduce((max, row) => Math.max(max, row.length), header.length);
+  const names = getColumnNames(header, width);
+
+  const kept = body.filter(row => !row.every(isBlank) && !(options.skipTotals && isTotalRow(row)));
+  // Columns with neither a header nor any data are padding, not data
+  const used = names.map((_, i) => !isBlank(header[i]) || kept.some(row => !isBlank(row[i])));
+
+  // Each column keeps the index of its cells, so rows are read without looking it up
+  const sources = names
+    .map((name, index) => ({ name, index }))
+    .filter(({ index }) => used[index])
+    .map(({ name, index }): { column: ReferenceColumn; index: number } => {
+      const values = kept.map(row => row[index] ?? null);
+      const type = options.columnTypes?.[name] || inferColumnType(name, values);
+      if (type === 'date') return { column: { name, type, dateOrder: options.dateOrders?.[name] || detectDateOrder(values) }, index };
+      if (type === 'number' || type === 'currency') return { column: { name, type, decimalSeparator: detectDecimalSeparator(values) }, index };
+      return { column: { name, type }, index };
+    });
+  const columns = sources.map(source => source.column);
+
+  const rows = kept.map(row => {
+    const record: Record<string, any> = {};
+    sources.forEach(({ column, index }) => {
+      record[column.name] = convertCell(row[index] ?? null, column);
+    });
+    return record;
+  });
+
+  return { columns, rows, skippedRows: body.length - kept.length };
+};
@@ -0,0 +1,217 @@
+import { DocumentResult } from './types';
+import { ProjectState } from './projectFile';
+import { openDatabase, promisify, transactionDone } from './idb';
+import { renderPdfToImage } from './utils';
+
+/**
+ * Autosave of the working session to IndexedDB. Each document's File and annotated page
+ * blobs are stored once, apart from the snapshot, and only written again when they
+ * change; thumbnails are left out and rendered again on restore. Saving during a batch
+ * stays cheap, and a crash mid-batch loses at most the document in flight. Each browser tab works in its own session; older sessions can be
+ * restored or purged.
+ */
+
+const DB_NAME = 'tickandtie';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions'; // SessionSummary, small enough to list quickly
+const SNAPSHOTS_STORE = 'snapshots'; // State without the document blobs and previews, keyed by session id
+const FILES_STORE = 'files'; // StoredFiles, keyed by "<session id>/<document id>"
+
+export interface SessionSummary {
+  id: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  documentCount: number;
+  extractedCount: number;
+  fieldNames: string[];
+  bytes: number; // Approximate size of the stored snapshot
+}
+
+// Object URLs do not survive a reload, so only the blobs are stored
+interface StoredFiles {
+  file: File;
+  annotatedPages: Blob[];
+}
+
+// Previews are rendered again from the file on restore
+type StoredDocument = Omit<DocumentResult, 'file' | 'annotatedPages' | 'previewUrl'>;
+type StoredState = Omit<ProjectState, 'documents'> & { documents: StoredDocument[] };
+
+// Blobs each files key was last written with in this tab, to skip unchanged documents
+const writtenFiles = new Map<string, Blob[]>();
+
+const filesKey = (sessionId: string, docId: string) => `${sessionId}/${docId}`;
+const sessionFilesRange = (sessionId: string) => IDBKeyRange.bound(`${sessionId}/`, `${sessionId}/\uffff`);
+
+const getBlobs = (doc: DocumentResult): Blob[] => [doc.file, ...(doc.annotatedPages || []).map(page => page.blob)];
+
+const isWritten = (key: string, blobs: Blob[]) => {
+  const written = writtenFiles.get(key);
+  return !!written && written.length === blobs.length && written.every((blob, i) => blob === blobs[i]);
+};
+
+const openDb = (): Promise<IDBDatabase> => openDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+  if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE);
+  if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE);
+});
+
+const estimateBytes = (state: ProjectState): number => {
+  const blobs = state.documents.reduce((sum, doc) => sum + getBlobs(doc).reduce((s, blob) => s + blob.size, 0), 0);
+  const json = JSON.stringify({ ...state, documents: state.documents.map(({ file, annotatedPages, previewUrl, ...doc }) => doc) });
+  return blobs + json.length;
+};
+
+export const saveSession = async (sessionId: string, state: ProjectState): Promise<void> => {
+  const { apiKey: _apiKey, ...providerSettings } = state.providerSettings;
+  const stored: StoredState = {
+    ...state,
+    providerSettings,
+    documents: state.documents.map(({ file: _file, annotatedPages: _annotatedPages, previewUrl: _previewUrl, ...doc }) => doc)
+  };
+
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SESSIONS_STORE, SNAPSHOTS_STORE, FILES_STORE], 'readwrite');
+    const files = tx.objectStore(FILES_STORE);
+    const keys = new Set(state.documents.map(doc => filesKey(sessionId, doc.id)));
+    const storedKeys = (await promisify(files.getAllKeys(sessionFilesRange(sessionId)))).map(String);
+    storedKeys.filter(key => !keys.has(key)).forEach(key => files.delete(key));
+    const changed = state.documents
+      .map(doc => ({ doc, key: filesKey(sessionId, doc.id), blobs: getBlobs(doc) }))
+      .filter(({ key, blobs }) => !storedKeys.includes(key) || !isWritten(key, blobs));
+    changed.forEach(({ doc, key }) => {
+      const entry: StoredFiles = { file: doc.file, annotatedPages: (doc.annotatedPages || []).map(page => page.blob) };
+      files.put(entry, key);
+    });
+
+    const sessions = tx.objectStore(SESSIONS_STORE);
+    const existing = await promisify<SessionSummary | undefined>(sessions.get(sessionId));
+    const now = new Date().toISOString();
+    const summary: SessionSummary = {
+      id: sessionId,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      documentCount: state.documents.length,
+      extractedCount: state.documents.filter(d => d.status === 'success').length,
+      fieldNames: state.fields.map(f => f.name),
+      bytes: estimateBytes(state)
+    };
+    sessions.put(summary);
+    tx.objectStore(SNAPSHOTS_STORE).put(stored, sessionId);
+    await transactionDone(tx);
+    storedKeys.filter(key => !keys.has(key)).forEach(key => writtenFiles.delete(key));
+    changed.forEach(({ key, blobs }) => writtenFiles.set(key, blobs));
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Stored sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const sessions = await promisify<SessionSummary[]>(tx.objectStore(SESSIONS_STORE).getAll());
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } finally {
+    db.close();
+  }
+};
+
+// Reads the snapshot and its files; nothing else may be awaited inside the transaction
+const readSession = async (sessionId: string): Promise<{ stored: StoredState; files: Map<string, StoredFiles> } | null> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SNAPSHOTS_STORE, FILES_STORE], 'readonly');
+    const stored = await promisify<StoredState | undefined>(tx.objectStore(SNAPSHOTS_STORE).get(sessionId));
+    if (!stored) return null;
+    const files = new Map<string, StoredFiles>();
+    for (const doc of stored.documents) {
+      const key = filesKey(sessionId, doc.id);
+      const entry = await promisify<StoredFiles | undefined>(tx.objectStore(FILES_STORE).get(key));
+      if (!entry) continue;
+      files.set(doc.id, entry);
+      writtenFiles.set(key, [entry.file, ...entry.annotatedPages]);
+    }
+    return { stored, files };
+  } finally {
+    db.close();
+  }
+};
+
+export const loadSession = async (sessionId: string): Promise<ProjectState | null> => {
+  const session = await readSession(sessionId);
+  if (!session) return null;
+  const { stored, files } = session;
+
+  const documents: DocumentResult[] = [];
+  for (const doc of stored.documents) {
+    const entry = files.get(doc.id);
+    if (!entry) {
+      console.error("Stored files missing for", doc.fileName);
+      continue;
+    }
+    let previewUrl: string | null = null;
+    try {
+      previewUrl = await renderPdfToImage(entry.file);
+    } catch (err) {
+      console.error("Failed to load preview for", doc.fileName, err);
+    }
+    documents.push({
+      ...doc,
+      file: entry.file,
+      previewUrl,
+      // A run that was in flight when the tab closed never finished
+      status: doc.status === 'processing' ? 'idle' : doc.status,
+      annotatedPages: entry.annotatedPages.length > 0
+        ? entry.annotatedPages.map(blob => ({ blob, url: URL.createObjectURL(blob) }))
+        : undefined
+    });
+  }
+
+  return {
+    ...stored,
+    columnMapping: stored.columnMapping || [], // Sessions saved before column mapping existed
+    documents
+  };
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([SESSIONS_STORE, SNAPSHOTS_STORE, FILES_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    tx.objectStore(SNAPSHOTS_STORE).delete(sessionId);
+    tx.objectStore(FILES_STORE).delete(sessionFilesRange(sessionId));
+    await transactionDone(tx);
+    [...writtenFiles.keys()].filter(key => key.startsWith(`${sessionId}/`)).forEach(key => writtenFiles.delete(key));
+  } finally {
+    db.close();
+  }
+};
+
+export const deleteAllSessions = async (exceptId?: string): Promise<void> => {
+  const sessions = await listSessions();
+  for (const session of sessions) {
+    if (session.id !== exceptId) await deleteSession(session.id);
+  }
+};
+
+/**
+ * Storage used and available to this site, as reported by the browser.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ColumnType, FieldDefinition, FieldTemplate, TableColumn } from './types';
+import { downloadBlob, getNextColor, sanitizeKey } from './utils';
+import { FIELD_TYPE_OPTIONS, createDefaultColumns, inferFieldType } from './fieldTypes';
+
+/**
+ * Field template library: built-in audit templates plus the team's own, kept in
+ * localStorage and shared as JSON files.
+ */
+
+const STORAGE_KEY = 'tickandtie.templates';
+const TEMPLATE_FILE_FORMAT = 'tickandtie-templates';
+const TEMPLATE_FILE_VERSION = 1;
+
+// Field as written in a template definition; everything but the name is optional
+type FieldSpec = Partial<FieldDefinition> & { name: string };
+
+/**
+ * Completes partial field specs into definitions with ids, keys, colours and types,
+ * keeping the given order.
+ */
+export const buildFields = (specs: FieldSpec[]): FieldDefinition[] =>
+  specs.map((spec, i) => {
+    const type = spec.type || inferFieldType(spec.name);
+    return {
+      ...spec,
+      id: uuidv4(),
+      name: spec.name,
+      key: spec.key || sanitizeKey(spec.name),
+      color: spec.color || getNextColor(i),
+      type,
+      ...(type === 'table' && !spec.columns?.length ? { columns: createDefaultColumns() } : {})
+    };
+  });
+
+const column = (name: string, type: ColumnType): TableColumn => ({ id: uuidv4(), name, key: sanitizeKey(name), type });
+
+const builtIn = (id: string, name: string, fields: FieldSpec[]): FieldTemplate => ({
+  id, name, builtIn: true, fields: buildFields(fields)
+});
+
+export const BUILT_IN_TEMPLATES: FieldTemplate[] = [
+  builtIn('builtin-ap-invoice', 'AP Invoice', [
+    { name: 'Invoice Number', type: 'text' },
+    { name: 'Invoice Date', type: 'date' },
+    { name: 'Vendor Name', type: 'text' },
+    {
+      name: 'Total Amount', type: 'currency',
+      description: 'Total payable including tax',
+      synonyms: ['Total', 'Grand Total', 'Invoice Total'],
+      negativeHints: ['Not the subtotal', 'Not the tax line', 'Not the amount due after credits']
+    },
+    { name: 'Tax Amount', type: 'currency', synonyms: ['VAT', 'GST', 'Sales Tax'] }
+  ]),
+  builtIn('builtin-purchase-order', 'Purchase Order', [
+    { name: 'PO Number', type: 'text', synonyms: ['Purchase Order No', 'Order Number'] },
+    { name: 'Order Date', type: 'date' },
+    { name: 'Supplier Name', type: 'text', synonyms: ['Vendor'] },
+    { name: 'Approver', type: 'text', description: 'Person who approved or signed the order' },
+    { name: 'Total Amount', type: 'currency' },
+    { name: 'Line Items', type: 'table' }
+  ]),
+  builtIn('builtin-bank-statement', 'Bank Statement', [
+    { name: 'Account Number', type: 'text' },
+    { name: 'Statement Period End', type: 'date', synonyms: ['Statement Date', 'Period Ending'] },
+    { name: 'Opening Balance', type: 'currency', synonyms: ['Balance Brought Forward', 'Previous Balance'] },
+    { name: 'Closing Balance', type: 'currency', synonyms: ['Balance Carried Forward', 'New Balance'] },
+    {
+      name: 'Transactions', type: 'table',
+      columns: [column('Date', 'date'), column('Description', 'text'), column('Debit', 'currency'), column('Credit', 'currency'), column('Balance', 'currency')]
+    }
+  ]),
+  builtIn('builtin-payroll-register', 'Payroll Register', [
+    { name: 'Pay Period End', type: 'date' },
+    { name: 'Pay Date', type: 'date' },
+    { name: 'Employee Count', type: 'number', synonyms: ['Headcount', 'Number of Employees'] },
+    { name: 'Gross Pay', type: 'currency', synonyms: ['Total Gross', 'Gross Earnings'] },
+    { name: 'Net Pay', type: 'currency', synonyms: ['Total Net', 'Net Amount'] }
+  ])
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+/**
+ * Copies fields with fresh ids, so editing the copy never touches the template.
+ */
+export const cloneFields = (fields: FieldDefinition[]): FieldDefinition[] =>
+  fields.map(f => ({
+    ...f,
+    id: uuidv4(),
+    columns: f.columns?.map(c => ({ ...c, id: uuidv4() }))
+  }));
+
+export const loadCustomTemplates = (): FieldTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to read saved templates", error);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: FieldTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+export const exportTemplates = (templates: FieldTemplate[]) => {
+  const file = {
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    templates: templates.map(({ builtIn: _builtIn, ...t }) => t)
+  };
+  downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), 'TickAndTie_Templates.json');
+};
+
+const FIELD_TYPES = FIELD_TYPE_OPTIONS.map(o => o.type);
+
+const findDuplicate = (keys: string[]) => keys.find((key, i) => keys.indexOf(key) !== i);
+
+/**
+ * Checks an imported field's type and table columns, filling in missing column keys and
+ * ids. Throws on anything the editor could not show.
+ */
+const readImportedField = (f: any, label: string): FieldSpec => {
+  if (f.type !== undefined && !FIELD_TYPES.includes(f.type)) {
+    throw new Error(`${label}: field "${f.name}" has an unknown type "${f.type}".`);
+  }
+  if (f.columns === undefined) return f;
+  if (!Array.isArray(f.columns) || f.columns.some((c: any) => typeof c?.name !== 'string')) {
+    throw new Error(`${label}: the columns of field "${f.name}" are not a list of named columns.`);
+  }
+  const columns: TableColumn[] = f.columns.map((c: any) => {
+    if (!FIELD_TYPES.includes(c.type) || c.type === 'table') {
+      throw new Error(`${label}: column "${c.name}" of field "${f.name}" has an unknown type "${c.type}".`);
+    }
+    return {
+      ...c,
+      id: typeof c.id === 'string' && c.id ? c.id : uuidv4(),
+      key: typeof c.key === 'string' && c.key ? c.key : sanitizeKey(c.name)
+    };
+  });
+  const duplicate = findDuplicate(columns.map(c => c.key));
+  if (duplicate) throw new Error(`${label}: field "${f.name}" has two columns with the key "${duplicate}".`);
+  return { ...f, columns };
+};
+
+/**
+ * Parses a shared template file. Accepts the export format, a bare list of templates or
+ * a single template. Imported templates get new ids so they never replace local ones.
+ */
+export const parseTemplateFile = (text: string): FieldTemplate[] => {
+  const json = JSON.parse(text);
+  if (json?.format === TEMPLATE_FILE_FORMAT && json.version > TEMPLATE_FILE_VERSION) {
+    throw new Error('These templates were exported by a newer version of Tick & Tie.');
+  }
+  const list: any[] = Array.isArray(json) ? json : Array.isArray(json?.templates) ? json.templates : [json];
+
+  const templates = list.map((t, i) => {
+    if (!t || !Array.isArray(t.fields) || t.fields.some((f: any) => typeof f?.name !== 'string')) {
+      throw new Error(`Template ${i + 1} is missing its field list.`);
+    }
+    const fields = buildFields(t.fields.map((f: any) => readImportedField(f, `Template ${i + 1}`)));
+    const duplicate = findDuplicate(fields.map(f => f.key));
+    if (duplicate) throw new Error(`Template ${i + 1} has two fields with the key "${duplicate}".`);
+    return {
+      id: uuidv4(),
+      name: typeof t.name === 'string' && t.name.trim() ? t.name.trim() : `Imported template ${i + 1}`,
+      fields
+    };
+  });
+  if (templates.length === 0) throw new Error('The file does not contain any templates.');
+  return templates;
+};
+
+// Compares field lists by content, ignoring the ids each copy gets
+const fieldSignature = (fields: FieldDefinition[]) =>
+  JSON.stringify(fields.map(({ id: _id, ...f }) => ({ ...f, columns: f.columns?.map(({ id: _cid, ...c }) => c) })));
+
+export const hasSameFields = (a: FieldDefinition[], b: FieldDefinition[]): boolean =>
+  fieldSignature(a) === fieldSignature(b);
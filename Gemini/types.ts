@@ -1,35 +1,242 @@
+export type FieldType = 'text' | 'number' | 'currency' | 'date' | 'percentage' | 'boolean' | 'enum' | 'table';
+
+// Scalar types allowed for the columns of a table field
+export type ColumnType = Exclude<FieldType, 'table'>;
+
+export interface FieldOptions {
+  dateFormat?: string; // e.g. DD/MM/YYYY, MM/DD/YYYY, YYYY-MM-DD, DD MMM YYYY
+  decimalSeparator?: '.' | ','; // Auto-detected when unset
+  allowedValues?: string[]; // Enum fields only
+}
+
+// Sub-column of a table (line item) field
+export interface TableColumn {
+  id: string;
+  name: string;
+  key: string; // Sanitized name for JSON key
+  type: ColumnType;
+  options?: FieldOptions;
+}
+
 export interface FieldDefinition {
   id: string;
   name: string;
   key: string; // Sanitized name for JSON key
   color: string; // Hex color for bounding box
+  type: FieldType;
+  options?: FieldOptions;
+  description?: string; // What the field means, e.g. "Total payable including tax"
+  synonyms?: string[]; // Labels to look for on the document, e.g. "Grand Total", "Amount Due"
+  negativeHints?: string[]; // What not to pick up, e.g. "Not the subtotal"
+  columns?: TableColumn[]; // Table fields only
+}
+
+// A named, reusable field list, e.g. "AP Invoice"
+export interface FieldTemplate {
+  id: string;
+  name: string;
+  builtIn?: boolean; // Shipped with the app; read-only
+  fields: FieldDefinition[];
 }
 
 // ymin, xmin, ymax, xmax (0-1000 scale)
 export type BoundingBox = [number, number, number, number];
 
 export interface ExtractedValue {
-  value: string | number | null;
+  value: string | number | boolean | null; // Canonical value: ISO date, numeric amount, boolean...
+  raw_text?: string | null; // Text exactly as printed on the document
+  error?: string | null; // Set when the value does not fit the field type
   box_2d?: BoundingBox | null;
+  page?: number | null; // 1-based page the box_2d refers to (defaults to page 1)
+  rows?: TableRow[] | null; // Table fields only; value is null
+  model_confidence?: number | null; // 0-1, as reported by the model
+  confidence?: number | null; // 0-1, model confidence combined with heuristic checks
+  override?: ValueOverride | null; // Set when a reviewer changed this value by hand
 }
 
+// A reviewer's correction. The ExtractedValue holds the corrected value; the model's
+// output is kept here so the workpaper can show both.
+export interface ValueOverride {
+  original: ExtractedValue; // Model output before any human edit
+  notApplicable?: boolean;
+  reviewer: string;
+  reason: string;
+  timestamp: string; // ISO 8601
+}
+
+// One row of a table field, e.g. an invoice line
+export interface TableRow {
+  cells: Record<string, ExtractedValue>; // Keyed by TableColumn.key
+  box_2d?: BoundingBox | null; // Box around the whole row
+  page?: number | null;
+  confidence?: number | null; // 0-1, as reported by the model for the whole row
+}
+
+export interface AnnotatedPage {
+  blob: Blob; // JPEG with burnt-in annotations
+  url: string; // Object URL for the blob
+}
+
+// Why an extraction failed; labels and hints live in extractionErrors.ts
+export type ExtractionErrorKind =
+  | 'api_key'
+  | 'rate_limit'
+  | 'file_too_large'
+  | 'unsupported_type'
+  | 'bad_response'
+  | 'network'
+  | 'safety_blocked'
+  | 'unknown';
+
 export interface DocumentResult {
   id: string;
   file: File;
   fileName: string;
   fileType: string;
-  previewUrl: string | null; // Data URL for image or rendered PDF page
-  annotatedUrl?: string; // URL for the image with burnt-in annotations
-  annotatedBlob?: Blob; // Blob for the image with burnt-in annotations
+  previewUrl: string | null; // Data URL for image or rendered PDF page 1 (thumbnail)
+  pageCount: number; // 1 for images, number of pages for PDFs
+  annotatedPages?: AnnotatedPage[]; // One burnt-in annotated image per page, for the export
   status: 'idle' | 'processing' | 'success' | 'error';
+  errorKind?: ExtractionErrorKind; // Set when extraction, or an update of some fields, failed
   errorMsg?: string;
+  failedFields?: string[]; // Field keys whose latest partial re-extraction failed; earlier values are kept
+  attempts?: number; // Extraction attempts in the latest run, including retries
+  warnings?: string[]; // Repairs made to the model output in the latest run
+  cached?: boolean; // Latest result came from the extraction cache
+  extractedWith?: Record<string, string>; // Field key -> signature of the definition it was extracted with
+  usage?: TokenUsage; // Everything spent extracting this document, across runs
   data: Record<string, ExtractedValue>; // Keyed by FieldDefinition.key
 }
 
+// Row counts of a joined dataset by match status
+export interface ReconcileSummary {
+  matched: number; // Including matches with differences
+  withDifferences: number;
+  missingInReference: number;
+  missingInSource: number;
+}
+
 export interface ReconcileResult {
   report: string;
   code: string;
   joinedData?: any[];
+  summary?: ReconcileSummary;
+  warnings?: string[]; // Problems with the joined dataset, e.g. cut off or incomplete
+  tokens?: TokenCounts; // As reported by the provider
+}
+
+// How an extracted field lines up with the reference data in the Tie
+export type MappingRole = 'key' | 'compare' | 'ignore';
+
+export type MatchRuleKind = 'exact' | 'fuzzy' | 'numeric' | 'date' | 'id';
+
+// How two values are judged equal when tying out a mapped column
+export interface MatchRule {
+  kind: MatchRuleKind;
+  threshold?: number; // fuzzy: minimum similarity, 0-1
+  absoluteTolerance?: number; // numeric: allowed difference in units
+  percentTolerance?: number; // numeric: allowed difference as a percent of the larger value
+  days?: number; // date: allowed difference either way
+}
+
+export interface ColumnMapping {
+  fieldKey: string; // FieldDefinition.key
+  referenceColumn: string | null;
+  role: MappingRole; // 'key' fields join the datasets; 'compare' fields are checked on matched rows
+  rule?: MatchRule; // Defaults from the field type when unset
+}
+
+export type ExceptionCategory = 'missing_in_source' | 'missing_in_reference' | 'value_difference';
+
+export type ExceptionStatus = 'open' | 'explained' | 'proposed_adjustment' | 'adjusted';
+
+export interface ExceptionComment {
+  author: string;
+  at: string; // ISO 8601
+  text: string;
+}
+
+// A reconciliation difference tracked through to resolution
+export interface ReconcileException {
+  id: string;
+  category: ExceptionCategory;
+  status: ExceptionStatus;
+  fileName: string | null;
+  detail: string; // What differs, or the unmatched row in brief
+  row: Record<string, any>; // The joined row it came from
+  comments: ExceptionComment[];
+  resolution: string;
+  updatedAt?: string; // ISO 8601, last status or resolution change
+}
+
+// One Tie run, kept so a saved project carries the history of reconciliations
+export interface ReconcileRun {
+  id: string;
+  ranAt: string; // ISO 8601
+  instructions: string;
+  referenceFileName: string | null;
+  result: ReconcileResult;
+  usage?: TokenUsage;
+  mapping?: ColumnMapping[]; // Mapping the join used, so the run can be reproduced
+  exceptions?: ReconcileException[]; // Unmatched and mismatched rows, with their review
+}
+
+// Batch extraction limits, tuned to the provider's rate limits
+export interface QueueSettings {
+  concurrency: number; // Documents processed at once
+  maxRetries: number; // Retries after a rate-limit or server error
+  baseDelayMs: number; // First backoff delay; doubles with each retry
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:8080/v1
+  apiKey?: string; // Overrides the key from the environment when set
+  retryInvalidFields?: boolean; // Ask once more for fields whose output failed validation (default on)
+}
+
+// What a provider returns for one document
+export interface ExtractionOutput {
+  data: Record<string, ExtractedValue>; // Keyed by FieldDefinition.key
+  warnings?: string[]; // Repairs made to the model output
+  tokens?: TokenCounts; // As reported by the provider, summed over every request made
+}
+
+export interface TokenCounts {
+  promptTokens: number;
+  responseTokens: number; // Includes thinking tokens, which are billed as output
+}
+
+// Tokens spent and their estimated cost
+export interface TokenUsage extends TokenCounts {
+  model: string;
+  cost: number | null; // USD, from the price table; null when the model has no price
+}
+
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million response tokens
+}
+
+// Extraction (Tick) and reconciliation (Tie) backend, selected at runtime
+export interface AIProvider {
+  kind: ProviderKind;
+  processDocument: (
+    doc: DocumentResult,
+    fields: FieldDefinition[],
+    signal?: AbortSignal // Cancels the request in flight
+  ) => Promise<ExtractionOutput>;
+  reconcileData: (
+    documents: DocumentResult[],
+    fields: FieldDefinition[],
+    referenceData: any[],
+    userInstructions: string,
+    mapping?: ColumnMapping[] // Explicit join; the provider picks the columns when omitted
+  ) => Promise<ReconcileResult>;
 }
 
 export const COLORS = [
@@ -0,0 +1,130 @@
+import { DocumentResult, FieldDefinition, ModelPrice, ProviderSettings, ReconcileRun, TokenCounts, TokenUsage } from './types';
+import { buildExtractionJsonSchema, buildExtractionPrompt } from './prompts';
+
+/**
+ * Token usage and cost accounting. Providers report token counts; costs are estimated
+ * from a per-model price table the team can edit, since list prices change and
+ * engagements may have negotiated rates.
+ */
+
+const STORAGE_KEY = 'tickandtie.prices';
+
+// USD per million tokens, from the providers' public price lists
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'mock', inputPerMillion: 0, outputPerMillion: 0 }
+];
+
+// Rough token costs used by the pre-flight estimate
+const PAGE_TOKENS: Record<ProviderSettings['kind'], number> = { gemini: 258, openai: 800, mock: 0 };
+const VALUE_RESPONSE_TOKENS = 60;
+const TABLE_RESPONSE_TOKENS = 400;
+const CHARS_PER_TOKEN = 4;
+
+export const loadPrices = (): ModelPrice[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_PRICES;
+  } catch (error) {
+    console.error("Failed to read saved prices", error);
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePrices = (prices: ModelPrice[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const findPrice = (prices: ModelPrice[], model: string): ModelPrice | undefined =>
+  prices.find(p => p.model.trim().toLowerCase() === model.trim().toLowerCase());
+
+/**
+ * Cost in USD of the given counts, or null when the model has no price.
+ */
+export const estimateCost = (counts: TokenCounts, model: string, prices: ModelPrice[]): number | null => {
+  const price = findPrice(prices, model);
+  if (!price) return null;
+  return (counts.promptTokens * price.inputPerMillion + counts.responseTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const toUsage = (counts: TokenCounts, model: string, prices: ModelPrice[]): TokenUsage => ({
+  model,
+  promptTokens: counts.promptTokens,
+  responseTokens: counts.responseTokens,
+  cost: estimateCost(counts, model, prices)
+});
+
+export const addTokenCounts = (a: TokenCounts | undefined, b: TokenCounts | undefined): TokenCounts | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  return { promptTokens: a.promptTokens + b.promptTokens, responseTokens: a.responseTokens + b.responseTokens };
+};
+
+/**
+ * Adds a run's usage to what was already spent. Costs add up when both are known;
+ * the model is the latest one used.
+ */
+export const addUsage = (total: TokenUsage | undefined, run: TokenUsage | undefined): TokenUsage | undefined => {
+  if (!total) return run;
+  if (!run) return total;
+  return {
+    model: run.model,
+    promptTokens: total.promptTokens + run.promptTokens,
+    responseTokens: total.responseTokens + run.responseTokens,
+    cost: total.cost !== null && run.cost !== null ? total.cost + run.cost : null
+  };
+};
+
+export interface UsageSummary {
+  promptTokens: number;
+  responseTokens: number;
+  cost: number;
+  unpriced: number; // Usage records whose model has no price, so the cost is incomplete
+}
+
+export const summarizeUsage = (usages: (TokenUsage | undefined)[]): UsageSummary =>
+  usages.reduce<UsageSummary>((sum, usage) => usage ? {
+    promptTokens: sum.promptTokens + usage.promptTokens,
+    responseTokens: sum.responseTokens + usage.responseTokens,
+    cost: sum.cost + (usage.cost || 0),
+    unpriced: sum.unpriced + (usage.cost === null ? 1 : 0)
+  } : sum, { promptTokens: 0, responseTokens: 0, cost: 0, unpriced: 0 });
+
+export const getProjectUsage = (documents: DocumentResult[], reconcileRuns: ReconcileRun[]) => ({
+  extraction: summarizeUsage(documents.map(d => d.usage)),
+  reconciliation: summarizeUsage(reconcileRuns.map(r => r.usage))
+});
+
+/**
+ * Pre-flight estimate for extracting the given fields from each document: prompt text,
+ * response schema and page images in, one value (or a table) per field out.
+ */
+export const estimateExtraction = (
+  jobs: { doc: DocumentResult; fields: FieldDefinition[] }[],
+  settings: ProviderSettings,
+  prices: ModelPrice[]
+): TokenUsage => {
+  const counts = jobs.reduce<TokenCounts>((sum, { doc, fields }) => {
+    const instructions = buildExtractionPrompt(fields).length + JSON.stringify(buildExtractionJsonSchema(fields)).length;
+    const promptTokens = Math.ceil(instructions / CHARS_PER_TOKEN) + doc.pageCount * PAGE_TOKENS[settings.kind];
+    const responseTokens = fields.reduce((n, f) => n + (f.type === 'table' ? TABLE_RESPONSE_TOKENS : VALUE_RESPONSE_TOKENS), 0);
+    return { promptTokens: sum.promptTokens + promptTokens, responseTokens: sum.responseTokens + responseTokens };
+  }, { promptTokens: 0, responseTokens: 0 });
+  return toUsage(counts, settings.model, prices);
+};
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return 'n/a';
+  if (cost > 0 && cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+};
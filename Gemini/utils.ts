@@ -1,4 +1,9 @@
-import { COLORS, DocumentResult, ExtractedValue, FieldDefinition, ReconcileResult } from './types';
+import { AnnotatedPage, BoundingBox, COLORS, DocumentResult, ExceptionCategory, ExtractedValue, FieldDefinition, ReconcileResult, ReconcileRun, TokenUsage } from './types';
+import { DEFAULT_REVIEW_THRESHOLD, documentNeedsReview } from './confidence';
+import { formatExtractedValue } from './fieldTypes';
+import { describeOverride } from './overrides';
+import { EXTRACTION_ERRORS } from './extractionErrors';
+import { EXCEPTION_CATEGORIES, EXCEPTION_STATUSES, formatComments, getStatusLabel } from './exceptions';
 
 // Access globals loaded via CDN
 declare global {
@@ -18,6 +23,36 @@ export const getNextColor = (index: number): string => {
   return COLORS[index % COLORS.length];
 };
 
+// FNV-1a; tells short strings apart cheaply, not meant to resist tampering
+export const hashText = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Resolves after ms, or rejects with an AbortError as soon as the signal aborts.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const abortError = () => new DOMException('The operation was aborted', 'AbortError');
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -31,63 +66,123 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+const loadPdf = async (file: File): Promise<any> => {
+  const arrayBuffer = await file.arrayBuffer();
+  return window.pdfjsLib.getDocument(arrayBuffer).promise;
+};
+
+const renderPdfPage = async (pdf: any, pageNumber: number, pdfScale: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+
+  const viewport = page.getViewport({ scale: pdfScale });
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+
+  if (!context) throw new Error("Canvas context not available");
+
+  await page.render({
+    canvasContext: context,
+    viewport: viewport
+  }).promise;
+
+  return canvas;
+};
+
+const imageToCanvas = async (file: File): Promise<HTMLCanvasElement> => {
+  const base64 = await fileToBase64(file);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Could not get 2d context"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas);
+    };
+    img.onerror = reject;
+    img.src = base64;
+  });
+};
+
+/**
+ * Returns the number of pages in a file. Images always have a single page.
+ */
+export const getPageCount = async (file: File): Promise<number> => {
+  if (file.type === 'application/pdf') {
+    const pdf = await loadPdf(file);
+    return pdf.numPages;
+  }
+  return 1;
+};
+
 /**
- * Shared helper to load a File (Image or PDF) into a Canvas.
- * PDF rendering uses scale. Images use natural size.
+ * Returns the PDF text layer of each page, in page order. Images and scanned PDFs
+ * have no text layer, so their pages come back empty.
  */
-const fileToCanvas = async (file: File, pdfScale: number = 1.5): Promise<HTMLCanvasElement> => {
+export const getPageTexts = async (file: File): Promise<string[]> => {
+  if (file.type !== 'application/pdf') return [];
+  const pdf = await loadPdf(file);
+  const texts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    texts.push(content.items.map((item: any) => item.str).join(' '));
+  }
+  return texts;
+};
+
+/**
+ * Shared helper to load a single page of a File (Image or PDF) into a Canvas.
+ * PDF rendering uses scale. Images use natural size and only have page 1.
+ */
+export const fileToCanvas = async (file: File, pdfScale: number = 1.5, pageNumber: number = 1): Promise<HTMLCanvasElement> => {
   if (file.type.startsWith('image/')) {
-    const base64 = await fileToBase64(file);
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error("Could not get 2d context"));
-          return;
-        }
-        ctx.drawImage(img, 0, 0);
-        resolve(canvas);
-      };
-      img.onerror = reject;
-      img.src = base64;
-    });
+    return imageToCanvas(file);
   }
 
   if (file.type === 'application/pdf') {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await window.pdfjsLib.getDocument(arrayBuffer).promise;
-    const page = await pdf.getPage(1);
-    
-    const viewport = page.getViewport({ scale: pdfScale });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
+    const pdf = await loadPdf(file);
+    return renderPdfPage(pdf, pageNumber, pdfScale);
+  }
 
-    if (!context) throw new Error("Canvas context not available");
+  throw new Error('Unsupported file type for rendering');
+};
 
-    await page.render({
-      canvasContext: context,
-      viewport: viewport
-    }).promise;
+/**
+ * Loads every page of a File (Image or PDF) into its own Canvas, in page order.
+ */
+export const fileToCanvases = async (file: File, pdfScale: number = 1.5): Promise<HTMLCanvasElement[]> => {
+  if (file.type.startsWith('image/')) {
+    return [await imageToCanvas(file)];
+  }
 
-    return canvas;
+  if (file.type === 'application/pdf') {
+    const pdf = await loadPdf(file);
+    const canvases: HTMLCanvasElement[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      canvases.push(await renderPdfPage(pdf, pageNumber, pdfScale));
+    }
+    return canvases;
   }
 
   throw new Error('Unsupported file type for rendering');
 };
 
 /**
- * Renders the first page of a PDF or loads an image to a Base64 Image URL.
+ * Renders a page of a PDF (page 1 by default) or loads an image to a Base64 Image URL.
+ * Raise pdfScale for sharper renders when zoomed in.
  */
-export const renderPdfToImage = async (file: File): Promise<string> => {
+export const renderPdfToImage = async (file: File, pageNumber: number = 1, pdfScale: number = 1.5): Promise<string> => {
   try {
-    const canvas = await fileToCanvas(file, 1.5); // 1.5 scale is good for thumbnails
+    const canvas = await fileToCanvas(file, pdfScale, pageNumber); // 1.5 scale is good for thumbnails
     return canvas.toDataURL('image/jpeg');
   } catch (e) {
     console.error("Preview generation failed", e);
@@ -96,59 +191,59 @@ export const renderPdfToImage = async (file: File): Promise<string> => {
 };
 
 /**
- * Generates an annotated image (Blob and URL) with bounding boxes drawn on it.
+ * Page an extracted value lives on, clamped to the document. Missing pages default to 1.
  */
-export const generateAnnotatedImage = async (
-  file: File,
-  data: Record<string, ExtractedValue>,
-  fields: FieldDefinition[]
-): Promise<{ blob: Blob; url: string }> => {
-  // Use higher scale for annotated export (PDFs)
-  const canvas = await fileToCanvas(file, 2.0);
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error("No canvas context");
-
-  fields.forEach(field => {
-    const extracted = data[field.key];
-    if (extracted && extracted.box_2d) {
-      const [ymin, xmin, ymax, xmax] = extracted.box_2d;
-      
-      // Convert normalized (0-1000) coords to canvas coords
-      const x = (xmin / 1000) * canvas.width;
-      const y = (ymin / 1000) * canvas.height;
-      const w = ((xmax - xmin) / 1000) * canvas.width;
-      const h = ((ymax - ymin) / 1000) * canvas.height;
-
-      // 1. Draw Box
-      ctx.lineWidth = Math.max(2, canvas.width * 0.003); // Responsive line width
-      ctx.strokeStyle = field.color;
-      ctx.strokeRect(x, y, w, h);
-
-      // 2. Draw Fill (Transparent)
-      ctx.fillStyle = field.color + '20'; // Hex alpha ~12%
-      ctx.fillRect(x, y, w, h);
-
-      // 3. Draw Label Tag
-      const fontSize = Math.max(12, canvas.width * 0.015);
-      ctx.font = `bold ${fontSize}px sans-serif`;
-      const text = field.name;
-      const textMetrics = ctx.measureText(text);
-      const padding = 4;
-      const textW = textMetrics.width + padding * 2;
-      const textH = fontSize + padding * 2;
-      
-      // Ensure label stays within canvas bounds (basic check for top edge)
-      const labelY = y - textH > 0 ? y - textH : y;
-      
-      ctx.fillStyle = field.color;
-      ctx.fillRect(x, labelY, textW, textH);
-      
-      ctx.fillStyle = 'white';
-      ctx.textBaseline = 'top';
-      ctx.fillText(text, x + padding, labelY + padding);
-    }
-  });
+export const getValuePage = (extracted: { page?: number | null } | undefined, pageCount: number): number => {
+  const page = extracted?.page;
+  if (!page || !Number.isFinite(page)) return 1;
+  return Math.min(Math.max(1, Math.round(page)), Math.max(1, pageCount));
+};
 
+const drawFieldBox = (
+  ctx: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  field: FieldDefinition,
+  box: BoundingBox,
+  label: string = field.name
+) => {
+  const [ymin, xmin, ymax, xmax] = box;
+
+  // Convert normalized (0-1000) coords to canvas coords
+  const x = (xmin / 1000) * canvas.width;
+  const y = (ymin / 1000) * canvas.height;
+  const w = ((xmax - xmin) / 1000) * canvas.width;
+  const h = ((ymax - ymin) / 1000) * canvas.height;
+
+  // 1. Draw Box
+  ctx.lineWidth = Math.max(2, canvas.width * 0.003); // Responsive line width
+  ctx.strokeStyle = field.color;
+  ctx.strokeRect(x, y, w, h);
+
+  // 2. Draw Fill (Transparent)
+  ctx.fillStyle = field.color + '20'; // Hex alpha ~12%
+  ctx.fillRect(x, y, w, h);
+
+  // 3. Draw Label Tag
+  const fontSize = Math.max(12, canvas.width * 0.015);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  const text = label;
+  const textMetrics = ctx.measureText(text);
+  const padding = 4;
+  const textW = textMetrics.width + padding * 2;
+  const textH = fontSize + padding * 2;
+
+  // Ensure label stays within canvas bounds (basic check for top edge)
+  const labelY = y - textH > 0 ? y - textH : y;
+
+  ctx.fillStyle = field.color;
+  ctx.fillRect(x, labelY, textW, textH);
+
+  ctx.fillStyle = 'white';
+  ctx.textBaseline = 'top';
+  ctx.fillText(text, x + padding, labelY + padding);
+};
+
+const canvasToAnnotatedPage = (canvas: HTMLCanvasElement): Promise<AnnotatedPage> => {
   return new Promise((resolve, reject) => {
     canvas.toBlob((blob) => {
       if (blob) {
@@ -163,24 +258,56 @@ export const generateAnnotatedImage = async (
   });
 };
 
-export const parseExcelFile = async (file: File): Promise<any[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = window.XLSX.read(data, { type: 'array' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        const json = window.XLSX.utils.sheet_to_json(worksheet);
-        resolve(json);
-      } catch (err) {
-        reject(err);
+/**
+ * Generates one annotated image (Blob and URL) per page, with each field's bounding box
+ * drawn on the page it was found on.
+ */
+export const generateAnnotatedPages = async (
+  file: File,
+  data: Record<string, ExtractedValue>,
+  fields: FieldDefinition[]
+): Promise<AnnotatedPage[]> => {
+  // Use higher scale for annotated export (PDFs)
+  const canvases = await fileToCanvases(file, 2.0);
+
+  const pages: AnnotatedPage[] = [];
+  for (let i = 0; i < canvases.length; i++) {
+    const canvas = canvases[i];
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("No canvas context");
+
+    fields.forEach(field => {
+      const extracted = data[field.key];
+      if (field.type === 'table') {
+        // Table fields are drawn row by row, each with its own label
+        (extracted?.rows || []).forEach((row, rowIndex) => {
+          if (row.box_2d && getValuePage(row, canvases.length) === i + 1) {
+            drawFieldBox(ctx, canvas, field, row.box_2d, `${field.name} #${rowIndex + 1}`);
+          }
+        });
+        return;
       }
-    };
-    reader.onerror = (err) => reject(err);
-    reader.readAsArrayBuffer(file);
-  });
+      if (extracted && extracted.box_2d && getValuePage(extracted, canvases.length) === i + 1) {
+        // Reviewer-placed boxes are labelled so the image shows what was machine vs. human
+        drawFieldBox(ctx, canvas, field, extracted.box_2d, extracted.override ? `${field.name} (edited)` : field.name);
+      }
+    });
+
+    pages.push(await canvasToAnnotatedPage(canvas));
+  }
+
+  return pages;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 };
 
 // Helper to parse Markdown tables into array of arrays
@@ -212,7 +339,9 @@ const parseMarkdownTable = (markdown: string): any[][] | null => {
 export const exportToZip = async (
   fields: FieldDefinition[], 
   documents: DocumentResult[],
-  reconcileResult?: ReconcileResult | null
+  reconcileResult?: ReconcileResult | null,
+  reviewThreshold: number = DEFAULT_REVIEW_THRESHOLD,
+  reconcileRuns: ReconcileRun[] = []
 ) => {
   if (!window.XLSX || !window.JSZip) {
     console.error("Required libraries (SheetJS or JSZip) not loaded");
@@ -225,22 +354,17 @@ export const exportToZip = async (
   const docsFolder = zip.folder(folderName);
 
   // Handle duplicate filenames
+  // filenameMap points each document at the file its spreadsheet link should open (first page)
   const filenameMap = new Map<string, string>();
+  // pageFilenameMap holds every annotated page file per document, in page order
+  const pageFilenameMap = new Map<string, string[]>();
   const usedFilenames = new Set<string>();
 
-  documents.forEach(doc => {
-    let name = doc.fileName;
-    // If we have an annotated blob, we will save as .jpg regardless of input
-    if (doc.annotatedBlob) {
-      const lastDotIndex = name.lastIndexOf(".");
-      const base = lastDotIndex !== -1 ? name.substring(0, lastDotIndex) : name;
-      name = `${base}_annotated.jpg`;
-    }
-
+  const reserveFilename = (name: string): string => {
     const lastDotIndex = name.lastIndexOf(".");
     let base = lastDotIndex !== -1 ? name.substring(0, lastDotIndex) : name;
     let ext = lastDotIndex !== -1 ? name.substring(lastDotIndex) : "";
-    
+
     // Ensure unique filename
     let counter = 1;
     let uniqueName = name;
@@ -249,16 +373,28 @@ export const exportToZip = async (
       counter++;
     }
     usedFilenames.add(uniqueName);
-    filenameMap.set(doc.id, uniqueName);
+    return uniqueName;
+  };
 
-    // Add file to zip folder
-    if (docsFolder) {
-      if (doc.annotatedBlob) {
-        docsFolder.file(uniqueName, doc.annotatedBlob);
-      } else {
-        // Fallback to original file if no annotation available
-        docsFolder.file(uniqueName, doc.file);
-      }
+  documents.forEach(doc => {
+    const lastDotIndex = doc.fileName.lastIndexOf(".");
+    const base = lastDotIndex !== -1 ? doc.fileName.substring(0, lastDotIndex) : doc.fileName;
+
+    // If we have annotated pages, we will save each page as .jpg regardless of input
+    if (doc.annotatedPages && doc.annotatedPages.length > 0) {
+      const multiPage = doc.annotatedPages.length > 1;
+      const pageNames = doc.annotatedPages.map((page, i) => {
+        const uniqueName = reserveFilename(multiPage ? `${base}_annotated_p${i + 1}.jpg` : `${base}_annotated.jpg`);
+        docsFolder?.file(uniqueName, page.blob);
+        return uniqueName;
+      });
+      filenameMap.set(doc.id, pageNames[0]);
+      pageFilenameMap.set(doc.id, pageNames);
+    } else {
+      // Fallback to original file if no annotation available
+      const uniqueName = reserveFilename(doc.fileName);
+      filenameMap.set(doc.id, uniqueName);
+      docsFolder?.file(uniqueName, doc.file);
     }
   });
 
@@ -312,7 +448,8 @@ export const exportToZip = async (
     // --- Tab 2: Report Summary ---
     const reportSheet = window.XLSX.utils.aoa_to_sheet([
       ["Analysis Report"],
-      [reconcileResult.report]
+      [reconcileResult.report],
+      ...(reconcileResult.warnings || []).map(warning => [`Warning: ${warning}`])
     ]);
     if (!reportSheet['!cols']) reportSheet['!cols'] = [];
     reportSheet['!cols'][0] = { wch: 100 }; 
@@ -333,8 +470,17 @@ export const exportToZip = async (
     const headers = [
       "File Name", 
       "Status", 
+      "Error",
+      "Warnings",
+      "Needs Review",
       ...fields.map(f => f.name), 
-      ...fields.map(f => `${f.name} (Coords)`)
+      ...fields.map(f => `${f.name} (Raw)`),
+      ...fields.map(f => `${f.name} (Validation)`),
+      ...fields.map(f => `${f.name} (Confidence)`),
+      ...fields.map(f => `${f.name} (Source)`),
+      ...fields.map(f => `${f.name} (Override)`),
+      ...fields.map(f => `${f.name} (Coords)`),
+      ...fields.map(f => `${f.name} (Page)`)
     ];
 
     const dataRows = documents.map(doc => {
@@ -342,11 +488,24 @@ export const exportToZip = async (
       // Use original filename for display row, but link will point to annotated file
       row["File Name"] = doc.fileName; 
       row["Status"] = doc.status;
+      row["Error"] = doc.status === 'error'
+        ? [doc.errorKind && EXTRACTION_ERRORS[doc.errorKind].label, doc.errorMsg].filter(Boolean).join(': ')
+        : '';
+      row["Warnings"] = (doc.warnings || []).join('\n');
+      row["Needs Review"] = documentNeedsReview(doc, fields, reviewThreshold) ? 'Yes' : '';
       
       fields.forEach(field => {
         const extracted = doc.data[field.key];
-        row[field.name] = extracted?.value || '';
+        // Canonical value (numbers stay numeric in Excel); invalid values are flagged alongside the printed text
+        // Table fields show their row count here; the rows go to the Line Items sheet
+        row[field.name] = field.type === 'table' ? (extracted?.rows?.length ?? '') : (extracted?.value ?? '');
+        row[`${field.name} (Raw)`] = extracted?.raw_text ?? '';
+        row[`${field.name} (Validation)`] = extracted?.error ? `INVALID: ${extracted.error}` : (extracted?.raw_text ? 'OK' : '');
+        row[`${field.name} (Confidence)`] = extracted?.confidence ?? '';
+        row[`${field.name} (Source)`] = extracted?.override ? 'Human' : (extracted ? 'Model' : '');
+        row[`${field.name} (Override)`] = extracted?.override ? describeOverride(extracted.override, field) : '';
         row[`${field.name} (Coords)`] = extracted?.box_2d ? JSON.stringify(extracted.box_2d) : '';
+        row[`${field.name} (Page)`] = extracted?.box_2d ? getValuePage(extracted, doc.pageCount) : '';
       });
       return row;
     });
@@ -368,6 +527,16 @@ export const exportToZip = async (
           }
           worksheet[cellRef].l = { Target: `${folderName}/${uniqueName}` };
         }
+
+        // Each value's Page cell opens the annotated image of the page it was found on
+        const pageNames = pageFilenameMap.get(doc.id);
+        fields.forEach(field => {
+          const extracted = doc.data[field.key];
+          if (!pageNames || !extracted?.box_2d) return;
+          const cellRef = window.XLSX.utils.encode_cell({ c: headers.indexOf(`${field.name} (Page)`), r: R });
+          const target = pageNames[getValuePage(extracted, doc.pageCount) - 1];
+          if (worksheet[cellRef] && target) worksheet[cellRef].l = { Target: `${folderName}/${target}` };
+        });
       }
     }
     window.XLSX.utils.book_append_sheet(workbook, worksheet, "Source Data (Tick)");
@@ -376,7 +545,8 @@ export const exportToZip = async (
     if (reconcileResult) {
       const reportSheet = window.XLSX.utils.aoa_to_sheet([
         ["Analysis Report"],
-        [reconcileResult.report]
+        [reconcileResult.report],
+        ...(reconcileResult.warnings || []).map(warning => [`Warning: ${warning}`])
       ]);
       window.XLSX.utils.book_append_sheet(workbook, reportSheet, "Analysis Report");
 
@@ -388,19 +558,133 @@ export const exportToZip = async (
     }
   }
 
+  // --- Line Items: one row per extracted table row, linked to the page it was found on ---
+  const tableFields = fields.filter(f => f.type === 'table');
+  const lineItemColumns = Array.from(new Set(tableFields.flatMap(f => (f.columns || []).map(c => c.name))));
+  const lineItemRows: Record<string, any>[] = [];
+  const lineItemLinks: (string | undefined)[] = [];
+
+  documents.forEach(doc => {
+    tableFields.forEach(field => {
+      (doc.data[field.key]?.rows || []).forEach((tableRow, rowIndex) => {
+        const row: Record<string, any> = {
+          "File Name": doc.fileName,
+          "Table": field.name,
+          "Row": rowIndex + 1
+        };
+        (field.columns || []).forEach(column => {
+          const cell = tableRow.cells[column.key];
+          row[column.name] = cell?.error ? (cell.raw_text ?? '') : (cell?.value ?? '');
+        });
+        const issues = (field.columns || [])
+          .filter(column => tableRow.cells[column.key]?.error)
+          .map(column => `${column.name}: ${tableRow.cells[column.key].error}`);
+        row["Validation"] = issues.length > 0 ? `INVALID: ${issues.join('; ')}` : 'OK';
+        const scores = Object.values(tableRow.cells).map(c => c.confidence).filter((c): c is number => typeof c === 'number');
+        row["Confidence"] = scores.length > 0 ? Math.min(...scores) : '';
+        const page = getValuePage(tableRow, doc.pageCount);
+        row["Page"] = tableRow.box_2d ? page : '';
+        row["Coords"] = tableRow.box_2d ? JSON.stringify(tableRow.box_2d) : '';
+        lineItemRows.push(row);
+        lineItemLinks.push(pageFilenameMap.get(doc.id)?.[page - 1] || filenameMap.get(doc.id));
+      });
+    });
+  });
+
+  if (lineItemRows.length > 0) {
+    const lineItemSheet = window.XLSX.utils.json_to_sheet(lineItemRows, {
+      header: ["File Name", "Table", "Row", ...lineItemColumns, "Validation", "Confidence", "Page", "Coords"]
+    });
+    lineItemLinks.forEach((target, i) => {
+      if (!target) return;
+      const cellRef = window.XLSX.utils.encode_cell({ c: 0, r: i + 1 });
+      if (lineItemSheet[cellRef]) lineItemSheet[cellRef].l = { Target: `${folderName}/${target}` };
+    });
+    window.XLSX.utils.book_append_sheet(workbook, lineItemSheet, "Line Items");
+  }
+
+  // --- Overrides: every human change next to the model output it replaced ---
+  const overrideRows: Record<string, any>[] = [];
+  documents.forEach(doc => {
+    fields.forEach(field => {
+      const extracted = doc.data[field.key];
+      const override = extracted?.override;
+      if (!override) return;
+      overrideRows.push({
+        "File Name": doc.fileName,
+        "Field": field.name,
+        "Model Value": formatExtractedValue(override.original, field),
+        "Model Coords": override.original.box_2d ? JSON.stringify(override.original.box_2d) : '',
+        "Human Value": override.notApplicable ? 'N/A' : formatExtractedValue(extracted, field),
+        "Human Coords": extracted.box_2d ? JSON.stringify(extracted.box_2d) : '',
+        "Reviewer": override.reviewer,
+        "When": override.timestamp,
+        "Reason": override.reason
+      });
+    });
+  });
+  if (overrideRows.length > 0) {
+    window.XLSX.utils.book_append_sheet(workbook, window.XLSX.utils.json_to_sheet(overrideRows), "Overrides");
+  }
+
+  // --- Exceptions: review of the latest reconciliation's differences, with totals by status ---
+  const exceptions = reconcileRuns[reconcileRuns.length - 1]?.exceptions || [];
+  if (exceptions.length > 0) {
+    const categories = Object.keys(EXCEPTION_CATEGORIES) as ExceptionCategory[];
+    const exceptionSheet = window.XLSX.utils.aoa_to_sheet([
+      ["Category", "Status", "File Name", "Detail", "Resolution", "Comments", "Last Updated"],
+      ...exceptions.map(e => [
+        EXCEPTION_CATEGORIES[e.category],
+        getStatusLabel(e.status),
+        e.fileName ?? '',
+        e.detail,
+        e.resolution,
+        formatComments(e),
+        e.updatedAt ?? ''
+      ]),
+      [],
+      ["Totals by Status", ...categories.map(c => EXCEPTION_CATEGORIES[c]), "Total"],
+      ...EXCEPTION_STATUSES.map(({ status, label }) => {
+        const inStatus = exceptions.filter(e => e.status === status);
+        return [label, ...categories.map(c => inStatus.filter(e => e.category === c).length), inStatus.length];
+      }),
+      ["Total", ...categories.map(c => exceptions.filter(e => e.category === c).length), exceptions.length]
+    ]);
+    exceptionSheet['!cols'] = [{ wch: 22 }, { wch: 20 }, { wch: 30 }, { wch: 60 }, { wch: 40 }, { wch: 60 }, { wch: 22 }];
+    window.XLSX.utils.book_append_sheet(workbook, exceptionSheet, "Exceptions");
+  }
+
+  // --- Usage: tokens and estimated cost per document and reconciliation run ---
+  const usageRow = (item: string, step: string, usage: TokenUsage) => ({
+    "Item": item,
+    "Step": step,
+    "Model": usage.model,
+    "Prompt Tokens": usage.promptTokens,
+    "Response Tokens": usage.responseTokens,
+    "Estimated Cost (USD)": usage.cost ?? ''
+  });
+  const usageRows = [
+    ...documents.filter(doc => doc.usage).map(doc => usageRow(doc.fileName, 'Extraction', doc.usage!)),
+    ...reconcileRuns.filter(run => run.usage).map(run => usageRow(run.ranAt, 'Reconciliation', run.usage!))
+  ];
+  if (usageRows.length > 0) {
+    usageRows.push({
+      "Item": "Total",
+      "Step": "",
+      "Model": "",
+      "Prompt Tokens": usageRows.reduce((sum, r) => sum + r["Prompt Tokens"], 0),
+      "Response Tokens": usageRows.reduce((sum, r) => sum + r["Response Tokens"], 0),
+      "Estimated Cost (USD)": usageRows.reduce((sum, r) => sum + (Number(r["Estimated Cost (USD)"]) || 0), 0)
+    });
+    window.XLSX.utils.book_append_sheet(workbook, window.XLSX.utils.json_to_sheet(usageRows), "Usage");
+  }
+
   const excelBuffer = window.XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
   zip.file("Audit_Report.xlsx", excelBuffer);
 
   try {
     const content = await zip.generateAsync({ type: "blob" });
-    const url = URL.createObjectURL(content);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "TickAndTie_Audit_Annotated.zip";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(content, "TickAndTie_Audit_Annotated.zip");
   } catch (error) {
     console.error("Failed to generate zip", error);
     alert("Failed to generate ZIP file.");
@@ -1,9 +1,13 @@
 import React, { useState, useRef } from 'react';
-import { Upload, Plus, Trash2, FileText, Play, Download, Eye, CheckCircle, AlertCircle, Loader2, RefreshCw, FileSpreadsheet, Square } from 'lucide-react';
-import { FieldDefinition, DocumentResult, ReconcileResult, COLORS } from './types';
-import { sanitizeKey, getNextColor, renderPdfToImage, exportToZip, parseExcelFile, generateAnnotatedImage } from './utils';
-import { processDocument, reconcileData } from './geminiService';
+import { Upload, Plus, Trash2, FileText, Play, Download, Eye, CheckCircle, AlertCircle, Loader2, RefreshCw, FileSpreadsheet, Square, ChevronDown, ChevronRight } from 'lucide-react';
+import { FieldDefinition, FieldLocator, BoundingBox, DocumentResult, ReconcileResult, ReconcileConfig, MatchRule, AnnotatedPage, ExtractedValue, ExtractionEngine, COLORS } from './types';
+import { sanitizeKey, getNextColor, renderPdfToImage, getPageCount, exportToZip, parseExcelFile, generateAnnotatedPages } from './utils';
+import { processDocument } from './geminiService';
+import { processDocumentLocally } from './ocrService';
+import { reconcileData, removeRulesForMissingFields, suggestMatchRules } from './reconcileEngine';
 import DocumentViewer from './components/DocumentViewer';
+import MatchRulesEditor from './components/MatchRulesEditor';
+import FieldLocatorEditor from './components/FieldLocatorEditor';
 import { v4 as uuidv4 } from 'uuid';
 
 type Tab = 'tick' | 'tie';
@@ -17,6 +21,8 @@ const App: React.FC = () => {
     { id: '3', name: 'Total Amount', key: 'total_amount', color: COLORS[2] }
   ]);
   const [newFieldName, setNewFieldName] = useState('');
+  const [expandedFieldId, setExpandedFieldId] = useState<string | null>(null);
+  const [extractionEngine, setExtractionEngine] = useState<ExtractionEngine>('local');
   const [documents, setDocuments] = useState<DocumentResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
@@ -27,9 +33,10 @@ const App: React.FC = () => {
   // Reconcile / Tie State
   const [referenceData, setReferenceData] = useState<any[]>([]);
   const [referenceFileName, setReferenceFileName] = useState<string | null>(null);
-  const [reconcilePrompt, setReconcilePrompt] = useState("Compare the datasets and highlight any differences");
+  const [reconcileConfig, setReconcileConfig] = useState<ReconcileConfig>({ keyRules: [], compareRules: [], dayFirst: false });
   const [isReconciling, setIsReconciling] = useState(false);
   const [reconcileResult, setReconcileResult] = useState<ReconcileResult | null>(null);
+  const referenceColumns = Array.from(new Set<string>(referenceData.flatMap(row => Object.keys(row))));
 
   // --- Handlers ---
 
@@ -48,7 +55,26 @@ const App: React.FC = () => {
   };
 
   const removeField = (id: string) => {
-    setFields(prev => prev.filter(f => f.id !== id));
+    const remaining = fields.filter(f => f.id !== id);
+    setFields(remaining);
+    setReconcileConfig(prev => removeRulesForMissingFields(prev, remaining));
+  };
+
+  const updateFieldLocator = (id: string, locator: FieldLocator) => {
+    setFields(prev => prev.map(f => f.id === id ? { ...f, locator } : f));
+  };
+
+  const setFieldZone = (id: string, zone: BoundingBox, page: number) => {
+    setFields(prev => prev.map(f =>
+      f.id === id ? { ...f, locator: { ...f.locator, strategy: 'zone', zone, zonePage: page } } : f
+    ));
+  };
+
+  // Local OCR keeps documents in the browser; Gemini sends them to the API
+  const extractDocument = (doc: DocumentResult): Promise<Record<string, ExtractedValue>> => {
+    return extractionEngine === 'local'
+      ? processDocumentLocally(doc, fields)
+      : processDocument(doc, fields);
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -61,6 +87,7 @@ const App: React.FC = () => {
         try {
           // Generate preview (Image or PDF page 1)
           const previewUrl = await renderPdfToImage(file);
+          const pageCount = await getPageCount(file);
           
           newDocs.push({
             id: uuidv4(),
@@ -68,6 +95,7 @@ const App: React.FC = () => {
             fileName: file.name,
             fileType: file.type,
             previewUrl,
+            pageCount,
             status: 'idle',
             data: {}
           });
@@ -80,6 +108,7 @@ const App: React.FC = () => {
             fileName: file.name,
             fileType: file.type,
             previewUrl: null, // Fallback
+            pageCount: 1,
             status: 'error',
             errorMsg: 'Could not generate preview',
             data: {}
@@ -97,6 +126,9 @@ const App: React.FC = () => {
         const data = await parseExcelFile(file);
         setReferenceData(data);
         setReferenceFileName(file.name);
+        // Pre-fill match rules from column names; the user can adjust them before running
+        const columns = Array.from(new Set<string>(data.flatMap(row => Object.keys(row))));
+        setReconcileConfig(prev => ({ ...prev, ...suggestMatchRules(fields, columns) }));
       } catch (error) {
         console.error("Error parsing reference file", error);
         alert("Failed to parse the reference file. Please ensure it is a valid Excel or CSV.");
@@ -104,6 +136,14 @@ const App: React.FC = () => {
     }
   };
 
+  const createMatchRule = (): MatchRule => ({
+    id: uuidv4(),
+    fieldKey: fields[0]?.key || '',
+    referenceColumn: referenceColumns[0] || '',
+    valueType: 'text',
+    mode: 'normalized'
+  });
+
   const handleStop = () => {
     shouldStopRef.current = true;
   };
@@ -131,16 +171,13 @@ const App: React.FC = () => {
       setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: 'processing' } : d));
 
       try {
-        const result = await processDocument(doc, fields);
+        const result = await extractDocument(doc);
         
-        // Generate Annotated Image immediately for Viewer and Export
-        let annotatedBlob: Blob | undefined;
-        let annotatedUrl: string | undefined;
+        // Generate Annotated Pages immediately for Viewer and Export
+        let annotatedPages: AnnotatedPage[] | undefined;
 
         try {
-          const annotation = await generateAnnotatedImage(doc.file, result, fields);
-          annotatedBlob = annotation.blob;
-          annotatedUrl = annotation.url;
+          annotatedPages = await generateAnnotatedPages(doc.file, result, fields);
         } catch (annotErr) {
           console.error("Failed to generate annotation", annotErr);
         }
@@ -150,8 +187,7 @@ const App: React.FC = () => {
             ...d, 
             status: 'success', 
             data: result,
-            annotatedBlob,
-            annotatedUrl
+            annotatedPages
           } : d
         ));
       } catch (err) {
@@ -176,15 +212,12 @@ const App: React.FC = () => {
     setDocuments(prev => prev.map(d => d.id === docId ? { ...d, status: 'processing', errorMsg: undefined } : d));
 
     try {
-        const result = await processDocument(doc, fields);
+        const result = await extractDocument(doc);
         
-        let annotatedBlob: Blob | undefined;
-        let annotatedUrl: string | undefined;
+        let annotatedPages: AnnotatedPage[] | undefined;
 
         try {
-          const annotation = await generateAnnotatedImage(doc.file, result, fields);
-          annotatedBlob = annotation.blob;
-          annotatedUrl = annotation.url;
+          annotatedPages = await generateAnnotatedPages(doc.file, result, fields);
         } catch (annotErr) {
           console.error("Failed to generate annotation", annotErr);
         }
@@ -194,8 +227,7 @@ const App: React.FC = () => {
             ...d, 
             status: 'success', 
             data: result,
-            annotatedBlob,
-            annotatedUrl
+            annotatedPages
           } : d
         ));
     } catch (err) {
@@ -215,12 +247,16 @@ const App: React.FC = () => {
       alert("Please upload a reference dataset.");
       return;
     }
+    if (reconcileConfig.keyRules.length === 0) {
+      alert("Please define at least one key rule to join the datasets.");
+      return;
+    }
 
     setIsReconciling(true);
     setReconcileResult(null);
 
     try {
-      const result = await reconcileData(documents, fields, referenceData, reconcilePrompt);
+      const result = await reconcileData(documents, fields, referenceData, reconcileConfig);
       setReconcileResult(result);
     } catch (error) {
       console.error(error);
@@ -238,6 +274,7 @@ const App: React.FC = () => {
 
   const selectedDocument = documents.find(d => d.id === selectedDocId);
   const processedCount = documents.filter(d => d.status === 'success').length;
+  const canReconcile = processedCount > 0 && referenceData.length > 0 && reconcileConfig.keyRules.length > 0;
 
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
@@ -333,22 +370,48 @@ const App: React.FC = () => {
               <div className="p-6 border-b bg-gray-50">
                 <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-1">Fields to Extract</h2>
                 <p className="text-xs text-gray-500">Define the data points for extraction.</p>
+                <label className="flex items-center justify-between gap-2 mt-3 text-xs text-gray-600">
+                  <span className="font-medium">Engine</span>
+                  <select
+                    value={extractionEngine}
+                    onChange={(e) => setExtractionEngine(e.target.value as ExtractionEngine)}
+                    disabled={isProcessing}
+                    className="flex-1 px-2 py-1.5 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    <option value="local">Local OCR (no data leaves the browser)</option>
+                    <option value="gemini">Gemini</option>
+                  </select>
+                </label>
               </div>
               
               <div className="p-4 flex-1 overflow-y-auto">
                 <div className="space-y-3">
                   {fields.map((field) => (
-                    <div key={field.id} className="flex items-center justify-between p-3 bg-white border rounded-lg shadow-sm group hover:border-indigo-300 transition">
-                      <div className="flex items-center gap-3">
-                        <div className="w-4 h-4 rounded-full shadow-sm border border-black/10" style={{ backgroundColor: field.color }}></div>
-                        <span className="font-medium text-gray-700">{field.name}</span>
+                    <div key={field.id} className="p-3 bg-white border rounded-lg shadow-sm group hover:border-indigo-300 transition">
+                      <div className="flex items-center justify-between">
+                        <button
+                          onClick={() => setExpandedFieldId(id => id === field.id ? null : field.id)}
+                          className="flex items-center gap-3 text-left"
+                        >
+                          <div className="w-4 h-4 rounded-full shadow-sm border border-black/10" style={{ backgroundColor: field.color }}></div>
+                          <span className="font-medium text-gray-700">{field.name}</span>
+                          {expandedFieldId === field.id
+                            ? <ChevronDown size={14} className="text-gray-400" />
+                            : <ChevronRight size={14} className="text-gray-400" />}
+                        </button>
+                        <button 
+                          onClick={() => removeField(field.id)}
+                          className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"
+                        >
+                          <Trash2 size={16} />
+                        </button>
                       </div>
-                      <button 
-                        onClick={() => removeField(field.id)}
-                        className="text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"
-                      >
-                        <Trash2 size={16} />
-                      </button>
+                      {expandedFieldId === field.id && (
+                        <FieldLocatorEditor
+                          field={field}
+                          onChange={(locator) => updateFieldLocator(field.id, locator)}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -437,7 +500,10 @@ const App: React.FC = () => {
                                 )}
                                 <div>
                                   <div className="font-medium text-gray-900 text-sm truncate max-w-[200px]" title={doc.fileName}>{doc.fileName}</div>
-                                  <div className="text-xs text-gray-500">{doc.fileType.split('/')[1].toUpperCase()}</div>
+                                  <div className="text-xs text-gray-500">
+                                    {doc.fileType.split('/')[1].toUpperCase()}
+                                    {doc.pageCount > 1 && ` · ${doc.pageCount} pages`}
+                                  </div>
                                 </div>
                               </div>
                             </td>
@@ -513,7 +579,14 @@ const App: React.FC = () => {
                                  <div className="text-xs text-gray-500">{referenceData.length} rows loaded</div>
                                </div>
                              </div>
-                             <button onClick={() => { setReferenceData([]); setReferenceFileName(null); }} className="text-gray-400 hover:text-red-500">
+                             <button
+                               onClick={() => {
+                                 setReferenceData([]);
+                                 setReferenceFileName(null);
+                                 setReconcileConfig(prev => ({ ...prev, keyRules: [], compareRules: [] }));
+                               }}
+                               className="text-gray-400 hover:text-red-500"
+                             >
                                <Trash2 size={16} />
                              </button>
                            </div>
@@ -526,29 +599,50 @@ const App: React.FC = () => {
                      </div>
                    </div>
 
-                   {/* Prompt Section */}
-                   <div className="flex flex-col">
-                      <h3 className="text-sm font-medium text-gray-700 mb-2">3. Analysis Instructions</h3>
-                      <textarea 
-                        className="flex-1 border rounded-lg p-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-none bg-gray-50"
-                        placeholder="Describe how you want to compare the data..."
-                        value={reconcilePrompt}
-                        onChange={(e) => setReconcilePrompt(e.target.value)}
+                   {/* Match Rules Section */}
+                   <div className="flex flex-col gap-4">
+                      <h3 className="text-sm font-medium text-gray-700">3. Match Rules</h3>
+                      <MatchRulesEditor
+                        title="Join Keys"
+                        description="Rows are joined when every key matches."
+                        rules={reconcileConfig.keyRules}
+                        fields={fields}
+                        referenceColumns={referenceColumns}
+                        onChange={(keyRules) => setReconcileConfig(prev => ({ ...prev, keyRules }))}
+                        onAdd={() => setReconcileConfig(prev => ({ ...prev, keyRules: [...prev.keyRules, createMatchRule()] }))}
+                      />
+                      <MatchRulesEditor
+                        title="Compared Values"
+                        description="Differences on joined rows are reported as discrepancies."
+                        rules={reconcileConfig.compareRules}
+                        fields={fields}
+                        referenceColumns={referenceColumns}
+                        onChange={(compareRules) => setReconcileConfig(prev => ({ ...prev, compareRules }))}
+                        onAdd={() => setReconcileConfig(prev => ({ ...prev, compareRules: [...prev.compareRules, createMatchRule()] }))}
                       />
+                      <label className="flex items-center gap-2 text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={reconcileConfig.dayFirst}
+                          onChange={(e) => setReconcileConfig(prev => ({ ...prev, dayFirst: e.target.checked }))}
+                          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Read numeric dates as DD/MM/YYYY
+                      </label>
                    </div>
                 </div>
 
                 <div className="mt-6 flex justify-end">
                   <button 
                     onClick={runReconciliation}
-                    disabled={isReconciling || processedCount === 0 || referenceData.length === 0}
+                    disabled={isReconciling || !canReconcile}
                     className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium text-white transition shadow-sm
-                      ${isReconciling || processedCount === 0 || referenceData.length === 0
+                      ${isReconciling || !canReconcile
                         ? 'bg-gray-300 cursor-not-allowed' 
                         : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200'}`}
                   >
                     {isReconciling ? <Loader2 className="animate-spin" size={18} /> : <Play size={18} fill="currentColor" />}
-                    {isReconciling ? 'Running Analysis (Python)...' : 'Run Reconciliation'}
+                    {isReconciling ? 'Matching Records...' : 'Run Reconciliation'}
                   </button>
                 </div>
               </div>
@@ -560,7 +654,7 @@ const App: React.FC = () => {
                    {isReconciling ? (
                      <div className="flex flex-col items-center justify-center py-12 space-y-4">
                        <Loader2 size={40} className="animate-spin text-indigo-600" />
-                       <p className="text-gray-500 text-sm">Gemini is writing and executing Python code...</p>
+                       <p className="text-gray-500 text-sm">Joining extracted data to the reference dataset...</p>
                      </div>
                    ) : (
                      <div 
@@ -583,6 +677,7 @@ const App: React.FC = () => {
           document={selectedDocument} 
           fields={fields} 
           onClose={() => setSelectedDocId(null)} 
+          onZoneDrawn={setFieldZone}
         />
       )}
     </div>
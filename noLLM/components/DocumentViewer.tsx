@@ -1,28 +1,92 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { DocumentResult, FieldDefinition } from '../types';
-import { X, ZoomIn, ZoomOut } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { BoundingBox, DocumentResult, FieldDefinition } from '../types';
+import { getValuePage, renderPdfToImage } from '../utils';
+import { X, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Crop } from 'lucide-react';
 
 interface DocumentViewerProps {
   document: DocumentResult;
   fields: FieldDefinition[];
   onClose: () => void;
+  onZoneDrawn?: (fieldId: string, zone: BoundingBox, page: number) => void;
 }
 
-const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields, onClose }) => {
+// Normalized 0-1000 point within the page image
+type Point = { x: number; y: number };
+
+const toBox = (a: Point, b: Point): BoundingBox => [
+  Math.min(a.y, b.y), Math.min(a.x, b.x), Math.max(a.y, b.y), Math.max(a.x, b.x)
+];
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields, onClose, onZoneDrawn }) => {
   const [scale, setScale] = useState(1);
+  const [page, setPage] = useState(1);
+  const [pagePreviewUrl, setPagePreviewUrl] = useState<string | null>(null);
+  const [drawingFieldId, setDrawingFieldId] = useState<string | null>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+
+  const pageCount = Math.max(1, doc.annotatedPages?.length || doc.pageCount);
 
-  // Reset scale when doc changes
+  // Reset scale, page and drawing mode when doc changes
   useEffect(() => {
     setScale(1);
+    setPage(1);
+    setDrawingFieldId(null);
   }, [doc.id]);
 
-  // Use the annotated URL if available (processed docs), otherwise the preview URL (uploaded but not processed)
-  const displayUrl = doc.annotatedUrl || doc.previewUrl;
+  const annotatedUrl = doc.annotatedPages?.[page - 1]?.url;
+
+  // Unprocessed docs only carry a page 1 preview, so render other pages on demand
+  useEffect(() => {
+    setPagePreviewUrl(null);
+    if (annotatedUrl || page === 1) return;
+
+    let cancelled = false;
+    renderPdfToImage(doc.file, page)
+      .then(url => { if (!cancelled) setPagePreviewUrl(url); })
+      .catch(err => console.error("Failed to render page", page, err));
+    return () => { cancelled = true; };
+  }, [doc.id, doc.file, page, annotatedUrl]);
 
-  if (!displayUrl) {
+  // Use the annotated page if available (processed docs), otherwise the preview (uploaded but not processed)
+  const displayUrl = annotatedUrl || (page === 1 ? doc.previewUrl : pagePreviewUrl);
+
+  if (!doc.previewUrl && !annotatedUrl) {
     return null;
   }
 
+  const drawingField = fields.find(f => f.id === drawingFieldId);
+
+  const pointFromEvent = (e: React.MouseEvent<HTMLDivElement>): Point => {
+    // The bounding rect already includes the zoom transform
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000)
+    };
+  };
+
+  const finishDrawing = () => {
+    if (drawingFieldId && dragStart && dragEnd && onZoneDrawn) {
+      const zone = toBox(dragStart, dragEnd);
+      // Ignore accidental clicks that produce an empty zone
+      if (zone[2] - zone[0] > 2 && zone[3] - zone[1] > 2) {
+        onZoneDrawn(drawingFieldId, zone, page);
+        setDrawingFieldId(null);
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+    top: `${box[0] / 10}%`,
+    left: `${box[1] / 10}%`,
+    height: `${(box[2] - box[0]) / 10}%`,
+    width: `${(box[3] - box[1]) / 10}%`
+  });
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
       <div className="bg-white rounded-lg shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
@@ -32,10 +96,31 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
           <div>
             <h3 className="font-bold text-lg text-gray-800">{doc.fileName}</h3>
             <p className="text-sm text-gray-500">
-               {doc.annotatedUrl ? 'Annotated View' : 'Original Preview'}
+               {drawingField
+                 ? `Drag on the page to draw the zone for ${drawingField.name}`
+                 : annotatedUrl ? 'Annotated View' : 'Original Preview'}
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {pageCount > 1 && (
+              <div className="flex items-center bg-white border rounded-md">
+                <button
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                  className="p-2 hover:bg-gray-100 disabled:opacity-40"
+                >
+                  <ChevronLeft size={20} />
+                </button>
+                <span className="px-2 text-sm font-medium text-center whitespace-nowrap">Page {page} / {pageCount}</span>
+                <button
+                  onClick={() => setPage(p => Math.min(pageCount, p + 1))}
+                  disabled={page === pageCount}
+                  className="p-2 hover:bg-gray-100 disabled:opacity-40"
+                >
+                  <ChevronRight size={20} />
+                </button>
+              </div>
+            )}
             <div className="flex items-center bg-white border rounded-md">
               <button onClick={() => setScale(s => Math.max(0.5, s - 0.25))} className="p-2 hover:bg-gray-100">
                 <ZoomOut size={20} />
@@ -61,12 +146,34 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
                {fields.map(field => {
                  const extracted = doc.data[field.key];
                  const hasValue = extracted && extracted.value;
+                 const valuePage = extracted?.box_2d ? getValuePage(extracted, pageCount) : null;
                  
                  return (
-                   <div key={field.id} className="border rounded-lg p-3 hover:bg-gray-50 transition">
+                   <div
+                     key={field.id}
+                     onClick={() => valuePage && setPage(valuePage)}
+                     className={`border rounded-lg p-3 hover:bg-gray-50 transition ${valuePage ? 'cursor-pointer' : ''} ${valuePage === page ? 'border-indigo-300' : ''}`}
+                   >
                      <div className="flex items-center justify-between mb-1">
                         <span className="text-sm font-medium text-gray-600">{field.name}</span>
-                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: field.color }} />
+                        <div className="flex items-center gap-2">
+                          {valuePage && pageCount > 1 && (
+                            <span className="text-xs text-gray-400">p. {valuePage}</span>
+                          )}
+                          {onZoneDrawn && field.locator?.strategy === 'zone' && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setDrawingFieldId(id => id === field.id ? null : field.id);
+                              }}
+                              className={`p-1 rounded transition ${drawingFieldId === field.id ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:text-indigo-600'}`}
+                              title="Draw zone"
+                            >
+                              <Crop size={14} />
+                            </button>
+                          )}
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: field.color }} />
+                        </div>
                      </div>
                      <div className={`text-lg font-mono break-all ${hasValue ? 'text-gray-900' : 'text-gray-400 italic'}`}>
                        {hasValue ? extracted.value : 'Not found'}
@@ -83,12 +190,56 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
               className="relative shadow-lg transition-transform duration-200 origin-top-center"
               style={{ transform: `scale(${scale})` }}
             >
-              <img 
-                src={displayUrl} 
-                alt="Document Preview" 
-                className="max-w-none bg-white"
-                style={{ maxHeight: 'none', maxWidth: '100%' }} 
-              />
+              {displayUrl ? (
+                <>
+                  <img 
+                    src={displayUrl} 
+                    alt="Document Preview" 
+                    className="max-w-none bg-white"
+                    style={{ maxHeight: 'none', maxWidth: '100%' }} 
+                  />
+                  {/* Zones drawn for this page */}
+                  {fields.map(field => {
+                    const locator = field.locator;
+                    if (locator?.strategy !== 'zone' || !locator.zone || (locator.zonePage || 1) !== page) return null;
+                    return (
+                      <div
+                        key={field.id}
+                        className="absolute border-2 border-dashed pointer-events-none"
+                        style={{ ...boxStyle(locator.zone), borderColor: field.color }}
+                      />
+                    );
+                  })}
+                  {drawingField && (
+                    <div
+                      className="absolute inset-0 cursor-crosshair"
+                      onMouseDown={(e) => {
+                        const point = pointFromEvent(e);
+                        setDragStart(point);
+                        setDragEnd(point);
+                      }}
+                      onMouseMove={(e) => dragStart && setDragEnd(pointFromEvent(e))}
+                      onMouseUp={finishDrawing}
+                      onMouseLeave={finishDrawing}
+                    >
+                      {dragStart && dragEnd && (
+                        <div
+                          className="absolute border-2"
+                          style={{
+                            ...boxStyle(toBox(dragStart, dragEnd)),
+                            borderColor: drawingField.color,
+                            backgroundColor: drawingField.color + '20'
+                          }}
+                        />
+                      )}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="w-96 h-[32rem] bg-white flex items-center justify-center text-sm text-gray-400">
+                  Rendering page {page}...
+                </div>
+              )}
             </div>
           </div>
 
@@ -98,4 +249,4 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, fields,
   );
 };
 
-export default DocumentViewer;
\ No newline at end of file
+export default DocumentViewer;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { FieldDefinition, FieldLocator, LocatorStrategy } from '../types';
+
+interface FieldLocatorEditorProps {
+  field: FieldDefinition;
+  onChange: (locator: FieldLocator) => void;
+}
+
+const STRATEGIES: { value: LocatorStrategy; label: string }[] = [
+  { value: 'anchor', label: 'Anchor text' },
+  { value: 'regex', label: 'Regex pattern' },
+  { value: 'zone', label: 'Drawn zone' }
+];
+
+const inputClass = "w-full px-2 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const FieldLocatorEditor: React.FC<FieldLocatorEditorProps> = ({ field, onChange }) => {
+  const locator: FieldLocator = field.locator || { strategy: 'anchor' };
+  const update = (patch: Partial<FieldLocator>) => onChange({ ...locator, ...patch });
+
+  return (
+    <div className="space-y-2 pt-3 mt-3 border-t">
+      <label className="block">
+        <span className="text-xs font-medium text-gray-500">Locate by</span>
+        <select
+          value={locator.strategy}
+          onChange={(e) => update({ strategy: e.target.value as LocatorStrategy })}
+          className={`${inputClass} bg-white`}
+        >
+          {STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+        </select>
+      </label>
+
+      {locator.strategy === 'anchor' && (
+        <label className="block">
+          <span className="text-xs font-medium text-gray-500">Label text</span>
+          <input
+            type="text"
+            value={locator.anchor ?? ''}
+            onChange={(e) => update({ anchor: e.target.value })}
+            placeholder={field.name}
+            className={inputClass}
+          />
+        </label>
+      )}
+
+      {locator.strategy === 'zone' && (
+        <p className="text-xs text-gray-500">
+          {locator.zone
+            ? `Zone set on page ${locator.zonePage || 1}. Redraw it from the document viewer.`
+            : 'Open a sample document with the viewer and draw the zone for this field.'}
+        </p>
+      )}
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-500">
+          {locator.strategy === 'regex' ? 'Pattern' : 'Value pattern (optional)'}
+        </span>
+        <input
+          type="text"
+          value={locator.pattern ?? ''}
+          onChange={(e) => update({ pattern: e.target.value })}
+          placeholder={locator.strategy === 'regex' ? 'e.g. INV-\\d+' : 'e.g. [\\d.,]+'}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default FieldLocatorEditor;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FieldDefinition, MatchMode, MatchRule, MatchValueType } from '../types';
+
+interface MatchRulesEditorProps {
+  title: string;
+  description: string;
+  rules: MatchRule[];
+  fields: FieldDefinition[];
+  referenceColumns: string[];
+  onChange: (rules: MatchRule[]) => void;
+  onAdd: () => void;
+}
+
+const VALUE_TYPES: { value: MatchValueType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'date', label: 'Date' }
+];
+
+const MODES: { value: MatchMode; label: string }[] = [
+  { value: 'exact', label: 'Exact' },
+  { value: 'normalized', label: 'Normalized' },
+  { value: 'tolerance', label: 'Tolerance' }
+];
+
+const selectClass = "px-2 py-1.5 border rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const MatchRulesEditor: React.FC<MatchRulesEditorProps> = ({ title, description, rules, fields, referenceColumns, onChange, onAdd }) => {
+  const updateRule = (id: string, patch: Partial<MatchRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">{title}</h4>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+        <button
+          onClick={onAdd}
+          disabled={fields.length === 0 || referenceColumns.length === 0}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-md transition disabled:opacity-40"
+        >
+          <Plus size={14} /> Add rule
+        </button>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="text-xs text-gray-400 italic border border-dashed rounded-md p-3">No rules defined.</div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 border rounded-md">
+              <select
+                value={rule.fieldKey}
+                onChange={(e) => updateRule(rule.id, { fieldKey: e.target.value })}
+                className={selectClass}
+              >
+                {fields.map(f => <option key={f.id} value={f.key}>{f.name}</option>)}
+              </select>
+              <span className="text-xs text-gray-400">↔</span>
+              <select
+                value={rule.referenceColumn}
+                onChange={(e) => updateRule(rule.id, { referenceColumn: e.target.value })}
+                className={selectClass}
+              >
+                {referenceColumns.map(col => <option key={col} value={col}>{col}</option>)}
+              </select>
+              <select
+                value={rule.valueType}
+                onChange={(e) => updateRule(rule.id, { valueType: e.target.value as MatchValueType })}
+                className={selectClass}
+              >
+                {VALUE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+              <select
+                value={rule.mode}
+                onChange={(e) => updateRule(rule.id, { mode: e.target.value as MatchMode })}
+                className={selectClass}
+              >
+                {MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+              {rule.mode === 'tolerance' && rule.valueType !== 'text' && (
+                <label className="flex items-center gap-1 text-xs text-gray-500">
+                  ±
+                  <input
+                    type="number"
+                    min={0}
+                    step={rule.valueType === 'date' ? 1 : 0.01}
+                    value={rule.tolerance ?? 0}
+                    onChange={(e) => updateRule(rule.id, { tolerance: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-2 py-1.5 border rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                  {rule.valueType === 'date' ? 'days' : ''}
+                </label>
+              )}
+              <button
+                onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                className="ml-auto text-gray-400 hover:text-red-500 transition"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchRulesEditor;
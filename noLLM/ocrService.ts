@@ -0,0 +1,224 @@
+/// <reference types="vite/client" />
+import { createWorker, Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import { BoundingBox, DocumentResult, ExtractedValue, FieldDefinition, FieldLocator } from './types';
+import { fileToCanvases } from './utils';
+
+/**
+ * Fully local extraction: OCR each rendered page with the bundled Tesseract WASM engine,
+ * then locate every field through its FieldLocator. No document data leaves the browser.
+ */
+
+interface OcrWord {
+  text: string;
+  box: BoundingBox; // Normalized 0-1000 relative to the page
+}
+
+interface OcrLine {
+  page: number; // 1-based
+  words: OcrWord[];
+}
+
+interface LocatedValue {
+  value: string;
+  words: OcrWord[];
+  page: number;
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+// The worker, WASM core and traineddata are all served from the app bundle;
+// vite.config.ts serves the English model at tessdata/eng.traineddata.gz
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', 1, {
+      workerPath,
+      corePath,
+      // Absolute, since the worker resolves relative URLs against its own script
+      langPath: new URL(`${import.meta.env.BASE_URL}tessdata`, window.location.href).href,
+      gzip: true,
+      workerBlobURL: false,
+      cacheMethod: 'none'
+    });
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+const normalizeBox = (bbox: { x0: number; y0: number; x1: number; y1: number }, width: number, height: number): BoundingBox => [
+  Math.round((bbox.y0 / height) * 1000),
+  Math.round((bbox.x0 / width) * 1000),
+  Math.round((bbox.y1 / height) * 1000),
+  Math.round((bbox.x1 / width) * 1000)
+];
+
+const unionBox = (words: OcrWord[]): BoundingBox => [
+  Math.min(...words.map(w => w.box[0])),
+  Math.min(...words.map(w => w.box[1])),
+  Math.max(...words.map(w => w.box[2])),
+  Math.max(...words.map(w => w.box[3]))
+];
+
+const normalizeToken = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * OCRs every page of a file into lines of words with normalized boxes.
+ */
+export const recognizeDocument = async (file: File): Promise<OcrLine[]> => {
+  const worker = await getWorker();
+  const canvases = await fileToCanvases(file, 2.0);
+
+  const lines: OcrLine[] = [];
+  for (let i = 0; i < canvases.length; i++) {
+    const canvas = canvases[i];
+    const { data } = await worker.recognize(canvas);
+    (data.lines || []).forEach(line => {
+      const words = line.words
+        .filter(w => w.text.trim() !== '')
+        .map(w => ({ text: w.text, box: normalizeBox(w.bbox, canvas.width, canvas.height) }));
+      if (words.length > 0) lines.push({ page: i + 1, words });
+    });
+  }
+  return lines;
+};
+
+const compilePattern = (pattern?: string): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    throw new Error(`Invalid pattern: ${pattern}`);
+  }
+};
+
+/**
+ * Applies a regex to a run of words and returns the matched value along with the
+ * words it spans, so the value keeps a real bounding box.
+ */
+const matchWords = (words: OcrWord[], regex: RegExp | null, page: number): LocatedValue | null => {
+  if (words.length === 0) return null;
+  const text = words.map(w => w.text).join(' ');
+  if (!regex) return { value: text, words, page };
+
+  const match = regex.exec(text);
+  if (!match) return null;
+
+  const value = match[1] ?? match[0];
+  const start = match.index + (match[1] !== undefined ? match[0].indexOf(match[1]) : 0);
+  const end = start + value.length;
+
+  let offset = 0;
+  const spanned = words.filter(w => {
+    const wordStart = offset;
+    const wordEnd = offset + w.text.length;
+    offset = wordEnd + 1;
+    return wordEnd > start && wordStart < end;
+  });
+  return { value: value.trim(), words: spanned.length > 0 ? spanned : words, page };
+};
+
+// Finds the index just after the anchor label within a line, or -1
+const findAnchorEnd = (line: OcrLine, anchorTokens: string[]): number => {
+  const tokens = line.words.map(w => normalizeToken(w.text));
+  for (let i = 0; i + anchorTokens.length <= tokens.length; i++) {
+    if (anchorTokens.every((t, j) => tokens[i + j] === t)) return i + anchorTokens.length;
+  }
+  return -1;
+};
+
+const overlapsHorizontally = (a: BoundingBox, b: BoundingBox): boolean => a[1] < b[3] && b[1] < a[3];
+
+const locateByAnchor = (lines: OcrLine[], locator: FieldLocator, fallbackAnchor: string): LocatedValue | null => {
+  const anchorTokens = (locator.anchor || fallbackAnchor)
+    .split(/\s+/)
+    .map(normalizeToken)
+    .filter(Boolean);
+  if (anchorTokens.length === 0) return null;
+  const regex = compilePattern(locator.pattern);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const anchorEnd = findAnchorEnd(line, anchorTokens);
+    if (anchorEnd === -1) continue;
+
+    // 1. Value to the right of the label on the same line
+    const right = matchWords(line.words.slice(anchorEnd), regex, line.page);
+    if (right) return right;
+
+    // 2. Value on the nearest following line below the label, on the same page
+    const anchorBox = unionBox(line.words.slice(anchorEnd - anchorTokens.length, anchorEnd));
+    const below = lines
+      .slice(i + 1)
+      .filter(l => l.page === line.page)
+      .map(l => l.words.filter(w => overlapsHorizontally(w.box, anchorBox)))
+      .find(words => words.length > 0);
+    if (below) {
+      const located = matchWords(below, regex, line.page);
+      if (located) return located;
+    }
+  }
+  return null;
+};
+
+const locateByPattern = (lines: OcrLine[], locator: FieldLocator): LocatedValue | null => {
+  const regex = compilePattern(locator.pattern);
+  if (!regex) return null;
+  for (const line of lines) {
+    const located = matchWords(line.words, regex, line.page);
+    if (located) return located;
+  }
+  return null;
+};
+
+const locateByZone = (lines: OcrLine[], locator: FieldLocator): LocatedValue | null => {
+  if (!locator.zone) return null;
+  const [ymin, xmin, ymax, xmax] = locator.zone;
+  const page = locator.zonePage || 1;
+  const regex = compilePattern(locator.pattern);
+
+  // Words count as inside the zone when their centre is
+  const words = lines
+    .filter(l => l.page === page)
+    .flatMap(l => l.words)
+    .filter(w => {
+      const cy = (w.box[0] + w.box[2]) / 2;
+      const cx = (w.box[1] + w.box[3]) / 2;
+      return cy >= ymin && cy <= ymax && cx >= xmin && cx <= xmax;
+    });
+  return matchWords(words, regex, page);
+};
+
+const locateField = (lines: OcrLine[], field: FieldDefinition): LocatedValue | null => {
+  const locator: FieldLocator = field.locator || { strategy: 'anchor' };
+  switch (locator.strategy) {
+    case 'regex':
+      return locateByPattern(lines, locator);
+    case 'zone':
+      return locateByZone(lines, locator);
+    default:
+      return locateByAnchor(lines, locator, field.name);
+  }
+};
+
+export const processDocumentLocally = async (
+  doc: DocumentResult,
+  fields: FieldDefinition[]
+): Promise<Record<string, ExtractedValue>> => {
+  try {
+    const lines = await recognizeDocument(doc.file);
+
+    const result: Record<string, ExtractedValue> = {};
+    fields.forEach(field => {
+      const located = locateField(lines, field);
+      result[field.key] = located
+        ? { value: located.value, box_2d: unionBox(located.words), page: located.page }
+        : { value: null, box_2d: null };
+    });
+    return result;
+
+  } catch (error) {
+    console.error("OCR Error:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,361 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentResult, FieldDefinition, MatchRule, MatchStatus, MatchValueType, ReconcileConfig, ReconcileResult } from './types';
+
+/**
+ * Deterministic, rule-based Tie engine. Joins extracted rows to reference rows on the
+ * configured key rules (full outer join, each reference row used at most once, first
+ * match in upload order wins) and checks compare rules on every joined pair.
+ * The same inputs always produce the same output.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const isBlank = (value: any): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+export const normalizeText = (value: any): string =>
+  String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Parses amounts such as "$1,234.56", "1.234,56", "(500.00)" or "1 200 EUR" into a number.
+ * The right-most separator followed by 1-2 digits is treated as the decimal separator.
+ */
+export const parseAmount = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (isBlank(value)) return null;
+
+  let text = String(value).trim();
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text.replace(/[^\d\-]/g, ''));
+  text = text.replace(/[^\d.,]/g, '');
+  if (!text) return null;
+
+  const lastSeparator = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  let normalized: string;
+  if (lastSeparator !== -1 && text.length - lastSeparator - 1 <= 2) {
+    const whole = text.substring(0, lastSeparator).replace(/[.,]/g, '');
+    normalized = `${whole}.${text.substring(lastSeparator + 1)}`;
+  } else {
+    normalized = text.replace(/[.,]/g, '');
+  }
+
+  const amount = parseFloat(normalized);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+/**
+ * Parses a date into whole days since the Unix epoch (UTC).
+ * Accepts Excel serial numbers, ISO dates, numeric dates (order set by dayFirst) and
+ * anything else Date.parse understands (e.g. "Jan 5, 2024").
+ */
+export const parseDate = (value: any, dayFirst: boolean): number | null => {
+  if (isBlank(value)) return null;
+
+  if (typeof value === 'number') {
+    if (value <= 0 || value > 100000) return null;
+    return Math.floor((EXCEL_EPOCH + value * MS_PER_DAY) / MS_PER_DAY);
+  }
+
+  const text = String(value).trim();
+  const toDays = (y: number, m: number, d: number): number | null => {
+    if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+    const year = y < 100 ? 2000 + y : y;
+    return Math.floor(Date.UTC(year, m - 1, d) / MS_PER_DAY);
+  };
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return toDays(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (numeric) {
+    const [a, b, y] = [+numeric[1], +numeric[2], +numeric[3]];
+    return dayFirst ? toDays(y, b, a) : toDays(y, a, b);
+  }
+
+  const parsed = Date.parse(text);
+  if (Number.isNaN(parsed)) return null;
+  const date = new Date(parsed);
+  return toDays(date.getFullYear(), date.getMonth() + 1, date.getDate());
+};
+
+const formatDays = (days: number): string =>
+  new Date(days * MS_PER_DAY).toISOString().substring(0, 10);
+
+/**
+ * Compares a source and reference value under a single rule.
+ * Two blank values are considered equal; a blank and a non-blank value never are.
+ */
+export const valuesMatch = (source: any, reference: any, rule: MatchRule, dayFirst: boolean): boolean => {
+  if (isBlank(source) || isBlank(reference)) return isBlank(source) && isBlank(reference);
+
+  if (rule.mode === 'exact') {
+    return String(source).trim() === String(reference).trim();
+  }
+
+  const tolerance = rule.mode === 'tolerance' ? Math.abs(rule.tolerance || 0) : 0;
+
+  if (rule.valueType === 'amount') {
+    const a = parseAmount(source);
+    const b = parseAmount(reference);
+    if (a === null || b === null) return normalizeText(source) === normalizeText(reference);
+    // Half a cent absorbs floating point noise when no tolerance is set
+    return Math.abs(a - b) <= tolerance + 0.005;
+  }
+
+  if (rule.valueType === 'date') {
+    const a = parseDate(source, dayFirst);
+    const b = parseDate(reference, dayFirst);
+    if (a === null || b === null) return normalizeText(source) === normalizeText(reference);
+    return Math.abs(a - b) <= tolerance;
+  }
+
+  return normalizeText(source) === normalizeText(reference);
+};
+
+const guessValueType = (name: string): MatchValueType => {
+  if (/date/i.test(name)) return 'date';
+  if (/amount|total|price|sum|net|gross|tax|balance/i.test(name)) return 'amount';
+  return 'text';
+};
+
+/**
+ * Pairs fields with reference columns whose names match after normalization.
+ * The first identifier-like pair (number, no, id, ref) becomes the join key; the rest are compared.
+ */
+export const suggestMatchRules = (
+  fields: FieldDefinition[],
+  referenceColumns: string[]
+): Pick<ReconcileConfig, 'keyRules' | 'compareRules'> => {
+  const pairs: MatchRule[] = [];
+  fields.forEach(field => {
+    const fieldName = normalizeText(field.name);
+    const column =
+      referenceColumns.find(col => normalizeText(col) === fieldName) ||
+      referenceColumns.find(col => {
+        const colName = normalizeText(col);
+        return colName !== '' && (colName.includes(fieldName) || fieldName.includes(colName));
+      });
+    if (!column) return;
+
+    const valueType = guessValueType(field.name);
+    pairs.push({
+      id: uuidv4(),
+      fieldKey: field.key,
+      referenceColumn: column,
+      valueType,
+      mode: 'normalized'
+    });
+  });
+
+  if (pairs.length === 0) return { keyRules: [], compareRules: [] };
+
+  const keyIndex = Math.max(0, pairs.findIndex(rule => {
+    const fieldName = fields.find(f => f.key === rule.fieldKey)?.name || '';
+    return /\b(number|no|id|ref|reference)\b/i.test(fieldName);
+  }));
+
+  return {
+    keyRules: [pairs[keyIndex]],
+    compareRules: pairs.filter((_, i) => i !== keyIndex)
+  };
+};
+
+/**
+ * Drops rules on fields that no longer exist, which would otherwise compare blanks.
+ */
+export const removeRulesForMissingFields = (config: ReconcileConfig, fields: FieldDefinition[]): ReconcileConfig => {
+  const keys = new Set(fields.map(f => f.key));
+  return {
+    ...config,
+    keyRules: config.keyRules.filter(rule => keys.has(rule.fieldKey)),
+    compareRules: config.compareRules.filter(rule => keys.has(rule.fieldKey))
+  };
+};
+
+const describeRule = (rule: MatchRule, fields: FieldDefinition[]): string => {
+  const fieldName = fields.find(f => f.key === rule.fieldKey)?.name || rule.fieldKey;
+  const tolerance = rule.mode === 'tolerance'
+    ? ` ±${rule.tolerance || 0}${rule.valueType === 'date' ? ' days' : ''}`
+    : '';
+  return `${fieldName} ↔ ${rule.referenceColumn} (${rule.valueType}, ${rule.mode}${tolerance})`;
+};
+
+const formatValue = (value: any, rule: MatchRule, dayFirst: boolean): string => {
+  if (isBlank(value)) return '(blank)';
+  if (rule.valueType === 'date') {
+    const days = parseDate(value, dayFirst);
+    if (days !== null) return formatDays(days);
+  }
+  return String(value);
+};
+
+const escapeCell = (value: any): string => String(value ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const reconcileData = async (
+  documents: DocumentResult[],
+  fields: FieldDefinition[],
+  referenceData: any[],
+  config: ReconcileConfig
+): Promise<ReconcileResult> => {
+  if (config.keyRules.length === 0) {
+    throw new Error("At least one key rule is required to join the datasets");
+  }
+
+  const sourceRows = documents
+    .filter(d => d.status === 'success')
+    .map(d => {
+      const values: Record<string, any> = {};
+      fields.forEach(f => {
+        values[f.key] = d.data[f.key]?.value ?? null;
+      });
+      return { fileName: d.fileName, values };
+    });
+
+  const referenceColumns = Array.from(
+    new Set<string>(referenceData.flatMap(row => Object.keys(row)))
+  );
+
+  const usedReference = new Set<number>();
+  const joinedData: any[] = [];
+  const differencesByRule = new Map<string, number>();
+  const statusCounts: Record<MatchStatus, number> = {
+    'Matched': 0,
+    'Matched with differences': 0,
+    'Missing in Reference': 0,
+    'Missing in Source': 0
+  };
+  const discrepancies: { fileName: string; status: MatchStatus; details: string }[] = [];
+
+  const buildRow = (
+    status: MatchStatus,
+    source: typeof sourceRows[number] | null,
+    reference: any | null,
+    differences: string[]
+  ) => {
+    const row: Record<string, any> = {
+      fileName: source?.fileName ?? '',
+      Match_Status: status
+    };
+    fields.forEach(f => {
+      row[`Source: ${f.name}`] = source ? source.values[f.key] : null;
+    });
+    referenceColumns.forEach(col => {
+      row[`Reference: ${col}`] = reference ? reference[col] ?? null : null;
+    });
+    row.Differences = differences.join('; ');
+    statusCounts[status]++;
+    return row;
+  };
+
+  // 1. Join source rows to the first unused reference row satisfying every key rule
+  sourceRows.forEach(source => {
+    const refIndex = referenceData.findIndex((ref, i) =>
+      !usedReference.has(i) &&
+      config.keyRules.every(rule =>
+        !isBlank(source.values[rule.fieldKey]) &&
+        valuesMatch(source.values[rule.fieldKey], ref[rule.referenceColumn], rule, config.dayFirst)
+      )
+    );
+
+    if (refIndex === -1) {
+      joinedData.push(buildRow('Missing in Reference', source, null, []));
+      discrepancies.push({ fileName: source.fileName, status: 'Missing in Reference', details: 'No reference row matches the key' });
+      return;
+    }
+
+    usedReference.add(refIndex);
+    const reference = referenceData[refIndex];
+
+    // 2. Check compare rules on the joined pair
+    const differences: string[] = [];
+    config.compareRules.forEach(rule => {
+      const sourceValue = source.values[rule.fieldKey];
+      const referenceValue = reference[rule.referenceColumn];
+      if (!valuesMatch(sourceValue, referenceValue, rule, config.dayFirst)) {
+        const fieldName = fields.find(f => f.key === rule.fieldKey)?.name || rule.fieldKey;
+        differences.push(`${fieldName}: ${formatValue(sourceValue, rule, config.dayFirst)} vs ${formatValue(referenceValue, rule, config.dayFirst)}`);
+        differencesByRule.set(rule.id, (differencesByRule.get(rule.id) || 0) + 1);
+      }
+    });
+
+    const status: MatchStatus = differences.length > 0 ? 'Matched with differences' : 'Matched';
+    joinedData.push(buildRow(status, source, reference, differences));
+    if (differences.length > 0) {
+      discrepancies.push({ fileName: source.fileName, status, details: differences.join('; ') });
+    }
+  });
+
+  // 3. Remaining reference rows complete the full outer join
+  referenceData.forEach((reference, i) => {
+    if (usedReference.has(i)) return;
+    joinedData.push(buildRow('Missing in Source', null, reference, []));
+    const keyDescription = config.keyRules
+      .map(rule => `${rule.referenceColumn}=${reference[rule.referenceColumn] ?? ''}`)
+      .join(', ');
+    discrepancies.push({ fileName: '', status: 'Missing in Source', details: keyDescription });
+  });
+
+  // 4. Build the report
+  const keyText = config.keyRules.map(rule => `- ${describeRule(rule, fields)}`).join('\n');
+  const compareText = config.compareRules.length > 0
+    ? config.compareRules.map(rule => `- ${describeRule(rule, fields)}`).join('\n')
+    : '- (none)';
+
+  const lines: string[] = [
+    '# Reconciliation Summary',
+    '',
+    `Compared **${sourceRows.length}** extracted documents with **${referenceData.length}** reference rows.`,
+    '',
+    '| Status | Rows |',
+    '|---|---|',
+    ...(Object.keys(statusCounts) as MatchStatus[]).map(status => `| ${status} | ${statusCounts[status]} |`),
+    '',
+    '## Match Rules',
+    '',
+    '**Join keys**',
+    '',
+    keyText,
+    '',
+    '**Compared values**',
+    '',
+    compareText,
+    ''
+  ];
+
+  if (config.compareRules.length > 0) {
+    lines.push(
+      '## Differences by Column',
+      '',
+      '| Rule | Differences |',
+      '|---|---|',
+      ...config.compareRules.map(rule => `| ${escapeCell(describeRule(rule, fields))} | ${differencesByRule.get(rule.id) || 0} |`),
+      ''
+    );
+  }
+
+  lines.push('## Discrepancies', '');
+  if (discrepancies.length === 0) {
+    lines.push('No discrepancies found.');
+  } else {
+    lines.push(
+      '| Source File | Status | Details |',
+      '|---|---|---|',
+      ...discrepancies.map(d => `| ${escapeCell(d.fileName || '-')} | ${d.status} | ${escapeCell(d.details)} |`)
+    );
+  }
+
+  const code = [
+    'Join keys (all must match):',
+    ...config.keyRules.map(rule => `  ${describeRule(rule, fields)}`),
+    'Compared values:',
+    ...(config.compareRules.length > 0 ? config.compareRules.map(rule => `  ${describeRule(rule, fields)}`) : ['  (none)']),
+    `Ambiguous numeric dates read as ${config.dayFirst ? 'DD/MM/YYYY' : 'MM/DD/YYYY'}`
+  ].join('\n');
+
+  return { report: lines.join('\n'), code, joinedData };
+};
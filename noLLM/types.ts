@@ -1,16 +1,38 @@
+// ymin, xmin, ymax, xmax (0-1000 scale)
+export type BoundingBox = [number, number, number, number];
+
+// anchor: value follows a label such as "Invoice No:" (to its right, or on the line below)
+// regex: first match of a pattern anywhere in the OCR text
+// zone: text inside a region drawn once on a sample document
+export type LocatorStrategy = 'anchor' | 'regex' | 'zone';
+
+export interface FieldLocator {
+  strategy: LocatorStrategy;
+  anchor?: string; // Label text for the anchor strategy
+  pattern?: string; // Regex; first capture group (or whole match) is the value. Optional filter for anchor/zone
+  zone?: BoundingBox | null; // Region for the zone strategy
+  zonePage?: number; // 1-based page the zone was drawn on
+}
+
 export interface FieldDefinition {
   id: string;
   name: string;
   key: string; // Sanitized name for JSON key
   color: string; // Hex color for bounding box
+  locator?: FieldLocator; // Used by local OCR extraction; defaults to an anchor on the field name
 }
 
-// ymin, xmin, ymax, xmax (0-1000 scale)
-export type BoundingBox = [number, number, number, number];
+export type ExtractionEngine = 'local' | 'gemini';
 
 export interface ExtractedValue {
   value: string | number | null;
   box_2d?: BoundingBox | null;
+  page?: number | null; // 1-based page the box_2d refers to (defaults to page 1)
+}
+
+export interface AnnotatedPage {
+  blob: Blob; // JPEG with burnt-in annotations
+  url: string; // Object URL for the blob
 }
 
 export interface DocumentResult {
@@ -18,9 +40,9 @@ export interface DocumentResult {
   file: File;
   fileName: string;
   fileType: string;
-  previewUrl: string | null; // Data URL for image or rendered PDF page
-  annotatedUrl?: string; // URL for the image with burnt-in annotations
-  annotatedBlob?: Blob; // Blob for the image with burnt-in annotations
+  previewUrl: string | null; // Data URL for image or rendered PDF page 1 (thumbnail)
+  pageCount: number; // 1 for images, number of pages for PDFs
+  annotatedPages?: AnnotatedPage[]; // One burnt-in annotated image per page
   status: 'idle' | 'processing' | 'success' | 'error';
   errorMsg?: string;
   data: Record<string, ExtractedValue>; // Keyed by FieldDefinition.key
@@ -28,10 +50,34 @@ export interface DocumentResult {
 
 export interface ReconcileResult {
   report: string;
-  code: string;
+  code: string; // Description of the match rules that produced the result
   joinedData?: any[];
 }
 
+// How values are interpreted before comparison
+export type MatchValueType = 'text' | 'amount' | 'date';
+
+// exact: raw trimmed strings; normalized: canonical form (case/whitespace, parsed numbers, parsed dates);
+// tolerance: like normalized, but amounts/dates may differ by up to `tolerance` (currency units / days)
+export type MatchMode = 'exact' | 'normalized' | 'tolerance';
+
+export interface MatchRule {
+  id: string;
+  fieldKey: string; // FieldDefinition.key on the extracted side
+  referenceColumn: string; // Column header in the reference data
+  valueType: MatchValueType;
+  mode: MatchMode;
+  tolerance?: number;
+}
+
+export interface ReconcileConfig {
+  keyRules: MatchRule[]; // A source row joins a reference row when every key rule matches
+  compareRules: MatchRule[]; // Checked on joined rows to report value differences
+  dayFirst: boolean; // Read ambiguous dates like 03/04/2024 as DD/MM/YYYY
+}
+
+export type MatchStatus = 'Matched' | 'Matched with differences' | 'Missing in Reference' | 'Missing in Source';
+
 export const COLORS = [
   '#ef4444', // red-500
   '#3b82f6', // blue-500
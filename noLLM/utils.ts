@@ -1,4 +1,4 @@
-import { COLORS, DocumentResult, ExtractedValue, FieldDefinition, ReconcileResult } from './types';
+import { AnnotatedPage, BoundingBox, COLORS, DocumentResult, ExtractedValue, FieldDefinition, ReconcileResult } from './types';
 
 // Access globals loaded via CDN
 declare global {
@@ -31,63 +31,106 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+const loadPdf = async (file: File): Promise<any> => {
+  const arrayBuffer = await file.arrayBuffer();
+  return window.pdfjsLib.getDocument(arrayBuffer).promise;
+};
+
+const renderPdfPage = async (pdf: any, pageNumber: number, pdfScale: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+
+  const viewport = page.getViewport({ scale: pdfScale });
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+
+  if (!context) throw new Error("Canvas context not available");
+
+  await page.render({
+    canvasContext: context,
+    viewport: viewport
+  }).promise;
+
+  return canvas;
+};
+
+const imageToCanvas = async (file: File): Promise<HTMLCanvasElement> => {
+  const base64 = await fileToBase64(file);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Could not get 2d context"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas);
+    };
+    img.onerror = reject;
+    img.src = base64;
+  });
+};
+
 /**
- * Shared helper to load a File (Image or PDF) into a Canvas.
- * PDF rendering uses scale. Images use natural size.
+ * Returns the number of pages in a file. Images always have a single page.
  */
-const fileToCanvas = async (file: File, pdfScale: number = 1.5): Promise<HTMLCanvasElement> => {
+export const getPageCount = async (file: File): Promise<number> => {
+  if (file.type === 'application/pdf') {
+    const pdf = await loadPdf(file);
+    return pdf.numPages;
+  }
+  return 1;
+};
+
+/**
+ * Shared helper to load a single page of a File (Image or PDF) into a Canvas.
+ * PDF rendering uses scale. Images use natural size and only have page 1.
+ */
+export const fileToCanvas = async (file: File, pdfScale: number = 1.5, pageNumber: number = 1): Promise<HTMLCanvasElement> => {
   if (file.type.startsWith('image/')) {
-    const base64 = await fileToBase64(file);
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error("Could not get 2d context"));
-          return;
-        }
-        ctx.drawImage(img, 0, 0);
-        resolve(canvas);
-      };
-      img.onerror = reject;
-      img.src = base64;
-    });
+    return imageToCanvas(file);
   }
 
   if (file.type === 'application/pdf') {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await window.pdfjsLib.getDocument(arrayBuffer).promise;
-    const page = await pdf.getPage(1);
-    
-    const viewport = page.getViewport({ scale: pdfScale });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
+    const pdf = await loadPdf(file);
+    return renderPdfPage(pdf, pageNumber, pdfScale);
+  }
 
-    if (!context) throw new Error("Canvas context not available");
+  throw new Error('Unsupported file type for rendering');
+};
 
-    await page.render({
-      canvasContext: context,
-      viewport: viewport
-    }).promise;
+/**
+ * Loads every page of a File (Image or PDF) into its own Canvas, in page order.
+ */
+export const fileToCanvases = async (file: File, pdfScale: number = 1.5): Promise<HTMLCanvasElement[]> => {
+  if (file.type.startsWith('image/')) {
+    return [await imageToCanvas(file)];
+  }
 
-    return canvas;
+  if (file.type === 'application/pdf') {
+    const pdf = await loadPdf(file);
+    const canvases: HTMLCanvasElement[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      canvases.push(await renderPdfPage(pdf, pageNumber, pdfScale));
+    }
+    return canvases;
   }
 
   throw new Error('Unsupported file type for rendering');
 };
 
 /**
- * Renders the first page of a PDF or loads an image to a Base64 Image URL.
+ * Renders a page of a PDF (page 1 by default) or loads an image to a Base64 Image URL.
  */
-export const renderPdfToImage = async (file: File): Promise<string> => {
+export const renderPdfToImage = async (file: File, pageNumber: number = 1): Promise<string> => {
   try {
-    const canvas = await fileToCanvas(file, 1.5); // 1.5 scale is good for thumbnails
+    const canvas = await fileToCanvas(file, 1.5, pageNumber); // 1.5 scale is good for thumbnails
     return canvas.toDataURL('image/jpeg');
   } catch (e) {
     console.error("Preview generation failed", e);
@@ -96,59 +139,58 @@ export const renderPdfToImage = async (file: File): Promise<string> => {
 };
 
 /**
- * Generates an annotated image (Blob and URL) with bounding boxes drawn on it.
+ * Page an extracted value lives on, clamped to the document. Missing pages default to 1.
  */
-export const generateAnnotatedImage = async (
-  file: File,
-  data: Record<string, ExtractedValue>,
-  fields: FieldDefinition[]
-): Promise<{ blob: Blob; url: string }> => {
-  // Use higher scale for annotated export (PDFs)
-  const canvas = await fileToCanvas(file, 2.0);
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error("No canvas context");
-
-  fields.forEach(field => {
-    const extracted = data[field.key];
-    if (extracted && extracted.box_2d) {
-      const [ymin, xmin, ymax, xmax] = extracted.box_2d;
-      
-      // Convert normalized (0-1000) coords to canvas coords
-      const x = (xmin / 1000) * canvas.width;
-      const y = (ymin / 1000) * canvas.height;
-      const w = ((xmax - xmin) / 1000) * canvas.width;
-      const h = ((ymax - ymin) / 1000) * canvas.height;
-
-      // 1. Draw Box
-      ctx.lineWidth = Math.max(2, canvas.width * 0.003); // Responsive line width
-      ctx.strokeStyle = field.color;
-      ctx.strokeRect(x, y, w, h);
-
-      // 2. Draw Fill (Transparent)
-      ctx.fillStyle = field.color + '20'; // Hex alpha ~12%
-      ctx.fillRect(x, y, w, h);
-
-      // 3. Draw Label Tag
-      const fontSize = Math.max(12, canvas.width * 0.015);
-      ctx.font = `bold ${fontSize}px sans-serif`;
-      const text = field.name;
-      const textMetrics = ctx.measureText(text);
-      const padding = 4;
-      const textW = textMetrics.width + padding * 2;
-      const textH = fontSize + padding * 2;
-      
-      // Ensure label stays within canvas bounds (basic check for top edge)
-      const labelY = y - textH > 0 ? y - textH : y;
-      
-      ctx.fillStyle = field.color;
-      ctx.fillRect(x, labelY, textW, textH);
-      
-      ctx.fillStyle = 'white';
-      ctx.textBaseline = 'top';
-      ctx.fillText(text, x + padding, labelY + padding);
-    }
-  });
+export const getValuePage = (extracted: ExtractedValue | undefined, pageCount: number): number => {
+  const page = extracted?.page;
+  if (!page || !Number.isFinite(page)) return 1;
+  return Math.min(Math.max(1, Math.round(page)), Math.max(1, pageCount));
+};
 
+const drawFieldBox = (
+  ctx: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  field: FieldDefinition,
+  box: BoundingBox
+) => {
+  const [ymin, xmin, ymax, xmax] = box;
+
+  // Convert normalized (0-1000) coords to canvas coords
+  const x = (xmin / 1000) * canvas.width;
+  const y = (ymin / 1000) * canvas.height;
+  const w = ((xmax - xmin) / 1000) * canvas.width;
+  const h = ((ymax - ymin) / 1000) * canvas.height;
+
+  // 1. Draw Box
+  ctx.lineWidth = Math.max(2, canvas.width * 0.003); // Responsive line width
+  ctx.strokeStyle = field.color;
+  ctx.strokeRect(x, y, w, h);
+
+  // 2. Draw Fill (Transparent)
+  ctx.fillStyle = field.color + '20'; // Hex alpha ~12%
+  ctx.fillRect(x, y, w, h);
+
+  // 3. Draw Label Tag
+  const fontSize = Math.max(12, canvas.width * 0.015);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  const text = field.name;
+  const textMetrics = ctx.measureText(text);
+  const padding = 4;
+  const textW = textMetrics.width + padding * 2;
+  const textH = fontSize + padding * 2;
+
+  // Ensure label stays within canvas bounds (basic check for top edge)
+  const labelY = y - textH > 0 ? y - textH : y;
+
+  ctx.fillStyle = field.color;
+  ctx.fillRect(x, labelY, textW, textH);
+
+  ctx.fillStyle = 'white';
+  ctx.textBaseline = 'top';
+  ctx.fillText(text, x + padding, labelY + padding);
+};
+
+const canvasToAnnotatedPage = (canvas: HTMLCanvasElement): Promise<AnnotatedPage> => {
   return new Promise((resolve, reject) => {
     canvas.toBlob((blob) => {
       if (blob) {
@@ -163,6 +205,37 @@ export const generateAnnotatedImage = async (
   });
 };
 
+/**
+ * Generates one annotated image (Blob and URL) per page, with each field's bounding box
+ * drawn on the page it was found on.
+ */
+export const generateAnnotatedPages = async (
+  file: File,
+  data: Record<string, ExtractedValue>,
+  fields: FieldDefinition[]
+): Promise<AnnotatedPage[]> => {
+  // Use higher scale for annotated export (PDFs)
+  const canvases = await fileToCanvases(file, 2.0);
+
+  const pages: AnnotatedPage[] = [];
+  for (let i = 0; i < canvases.length; i++) {
+    const canvas = canvases[i];
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("No canvas context");
+
+    fields.forEach(field => {
+      const extracted = data[field.key];
+      if (extracted && extracted.box_2d && getValuePage(extracted, canvases.length) === i + 1) {
+        drawFieldBox(ctx, canvas, field, extracted.box_2d);
+      }
+    });
+
+    pages.push(await canvasToAnnotatedPage(canvas));
+  }
+
+  return pages;
+};
+
 export const parseExcelFile = async (file: File): Promise<any[]> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -225,22 +298,15 @@ export const exportToZip = async (
   const docsFolder = zip.folder(folderName);
 
   // Handle duplicate filenames
+  // filenameMap points each document at the file its spreadsheet link should open (first page)
   const filenameMap = new Map<string, string>();
   const usedFilenames = new Set<string>();
 
-  documents.forEach(doc => {
-    let name = doc.fileName;
-    // If we have an annotated blob, we will save as .jpg regardless of input
-    if (doc.annotatedBlob) {
-      const lastDotIndex = name.lastIndexOf(".");
-      const base = lastDotIndex !== -1 ? name.substring(0, lastDotIndex) : name;
-      name = `${base}_annotated.jpg`;
-    }
-
+  const reserveFilename = (name: string): string => {
     const lastDotIndex = name.lastIndexOf(".");
     let base = lastDotIndex !== -1 ? name.substring(0, lastDotIndex) : name;
     let ext = lastDotIndex !== -1 ? name.substring(lastDotIndex) : "";
-    
+
     // Ensure unique filename
     let counter = 1;
     let uniqueName = name;
@@ -249,16 +315,26 @@ export const exportToZip = async (
       counter++;
     }
     usedFilenames.add(uniqueName);
-    filenameMap.set(doc.id, uniqueName);
+    return uniqueName;
+  };
 
-    // Add file to zip folder
-    if (docsFolder) {
-      if (doc.annotatedBlob) {
-        docsFolder.file(uniqueName, doc.annotatedBlob);
-      } else {
-        // Fallback to original file if no annotation available
-        docsFolder.file(uniqueName, doc.file);
-      }
+  documents.forEach(doc => {
+    const lastDotIndex = doc.fileName.lastIndexOf(".");
+    const base = lastDotIndex !== -1 ? doc.fileName.substring(0, lastDotIndex) : doc.fileName;
+
+    // If we have annotated pages, we will save each page as .jpg regardless of input
+    if (doc.annotatedPages && doc.annotatedPages.length > 0) {
+      const multiPage = doc.annotatedPages.length > 1;
+      doc.annotatedPages.forEach((page, i) => {
+        const uniqueName = reserveFilename(multiPage ? `${base}_annotated_p${i + 1}.jpg` : `${base}_annotated.jpg`);
+        if (i === 0) filenameMap.set(doc.id, uniqueName);
+        docsFolder?.file(uniqueName, page.blob);
+      });
+    } else {
+      // Fallback to original file if no annotation available
+      const uniqueName = reserveFilename(doc.fileName);
+      filenameMap.set(doc.id, uniqueName);
+      docsFolder?.file(uniqueName, doc.file);
     }
   });
 
@@ -318,14 +394,14 @@ export const exportToZip = async (
     reportSheet['!cols'][0] = { wch: 100 }; 
     window.XLSX.utils.book_append_sheet(workbook, reportSheet, "Analysis Report");
 
-    // --- Tab 3: Python Code ---
+    // --- Tab 3: Match Rules ---
     const codeSheet = window.XLSX.utils.aoa_to_sheet([
-      ["Executed Python Code"],
+      ["Match Rules"],
       [reconcileResult.code]
     ]);
     if (!codeSheet['!cols']) codeSheet['!cols'] = [];
     codeSheet['!cols'][0] = { wch: 100 };
-    window.XLSX.utils.book_append_sheet(workbook, codeSheet, "Python Code");
+    window.XLSX.utils.book_append_sheet(workbook, codeSheet, "Match Rules");
 
   } else {
     // Default / Fallback: Tick Phase Export
@@ -334,7 +410,8 @@ export const exportToZip = async (
       "File Name", 
       "Status", 
       ...fields.map(f => f.name), 
-      ...fields.map(f => `${f.name} (Coords)`)
+      ...fields.map(f => `${f.name} (Coords)`),
+      ...fields.map(f => `${f.name} (Page)`)
     ];
 
     const dataRows = documents.map(doc => {
@@ -347,6 +424,7 @@ export const exportToZip = async (
         const extracted = doc.data[field.key];
         row[field.name] = extracted?.value || '';
         row[`${field.name} (Coords)`] = extracted?.box_2d ? JSON.stringify(extracted.box_2d) : '';
+        row[`${field.name} (Page)`] = extracted?.box_2d ? getValuePage(extracted, doc.pageCount) : '';
       });
       return row;
     });
@@ -372,7 +450,7 @@ export const exportToZip = async (
     }
     window.XLSX.utils.book_append_sheet(workbook, worksheet, "Source Data (Tick)");
     
-    // Only append Report/Code if available (e.g. analysis ran but didn't produce joined dataframe)
+    // Only append Report/Rules if available (e.g. reconciliation ran but produced no joined rows)
     if (reconcileResult) {
       const reportSheet = window.XLSX.utils.aoa_to_sheet([
         ["Analysis Report"],
@@ -381,10 +459,10 @@ export const exportToZip = async (
       window.XLSX.utils.book_append_sheet(workbook, reportSheet, "Analysis Report");
 
       const codeSheet = window.XLSX.utils.aoa_to_sheet([
-        ["Executed Python Code"],
+        ["Match Rules"],
         [reconcileResult.code]
       ]);
-      window.XLSX.utils.book_append_sheet(workbook, codeSheet, "Python Code");
+      window.XLSX.utils.book_append_sheet(workbook, codeSheet, "Match Rules");
     }
   }
 
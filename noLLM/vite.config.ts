@@ -1,7 +1,27 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Tesseract loads language data from a directory URL, so the bundled English model is
+// served (dev) and emitted (build) under a fixed name instead of a hashed asset
+const TESSDATA_DIR = 'tessdata';
+const TESSDATA_FILE = 'eng.traineddata.gz';
+const TESSDATA_SOURCE = path.resolve(__dirname, 'node_modules/@tesseract.js-data/eng/4.0.0_best_int', TESSDATA_FILE);
+
+const tessdata = (): Plugin => ({
+  name: 'tessdata',
+  configureServer(server) {
+    server.middlewares.use(`/${TESSDATA_DIR}/${TESSDATA_FILE}`, (_req, res) => {
+      res.setHeader('Content-Type', 'application/octet-stream');
+      fs.createReadStream(TESSDATA_SOURCE).pipe(res);
+    });
+  },
+  generateBundle() {
+    this.emitFile({ type: 'asset', fileName: `${TESSDATA_DIR}/${TESSDATA_FILE}`, source: fs.readFileSync(TESSDATA_SOURCE) });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +29,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tessdata()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)